@@ -0,0 +1,452 @@
+import { parseArgs } from 'node:util';
+import postgres, { type Sql } from 'postgres';
+import { validate as isUuid } from 'uuid';
+import { migrations, runMigrations } from './migrations';
+import { getStats, type SubscriptionStats } from './stats';
+import type { Subscription } from './subscription';
+import type { MessageStatus } from './subscription-message';
+import { Topic, type TopicOptions } from './topic';
+
+export type CliOptions = {
+  /**
+   * Environment variables to read the connection URL from.
+   *
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Write the command output.
+   *
+   * @default process.stdout.write
+   */
+  stdout?: (text: string) => void;
+
+  /**
+   * Write errors and usage.
+   *
+   * @default process.stderr.write
+   */
+  stderr?: (text: string) => void;
+};
+
+const USAGE = `Usage: pg-transit <command> [options]
+
+Commands:
+  topics list                                     List topics with their message counts
+  subscriptions list [--topic <name>]             List subscriptions with their message counts
+  messages list --topic <name> [--subscription <name>] [--status <status>...] [--limit <count>]
+                                                  List the oldest messages of a topic, or of a subscription by status
+  messages retry --topic <name> --subscription <name> [<id>...]
+                                                  Retry failed messages of a subscription, all when no id is given
+  messages remove --topic <name> <id>...          Remove messages from a topic
+  schedules list --topic <name>                   List scheduled messages of a topic
+  schedules remove --topic <name> <name>...       Remove scheduled messages from a topic
+  trim [--topic <name>] [--max-messages-retention <count>] [--max-message-age-in-ms <ms>]
+                                                  Remove acknowledged messages beyond the retention, from all topics when no topic is given
+  migrate                                         Run the database migrations, other commands expect them to be run
+
+Options:
+  --url <url>          The PostgreSQL connection URL, defaults to the DATABASE_URL environment variable.
+                       Standard PG* environment variables (PGHOST, PGUSER...) are used otherwise.
+  --json               Output JSON for scripting
+  -t, --topic          The topic name
+  -s, --subscription   The subscription name
+  --limit <count>      The maximum number of messages to list, defaults to 100
+  -h, --help           Show this help
+`;
+
+const OPTIONS = {
+  url: { type: 'string' },
+  json: { type: 'boolean', default: false },
+  topic: { type: 'string', short: 't' },
+  subscription: { type: 'string', short: 's' },
+  status: { type: 'string', multiple: true, default: [] as string[] },
+  limit: { type: 'string' },
+  'max-messages-retention': { type: 'string' },
+  'max-message-age-in-ms': { type: 'string' },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+const MESSAGE_STATUSES: MessageStatus[] = ['waiting', 'processing', 'completed', 'failed'];
+
+type CliValues = {
+  url?: string;
+  json: boolean;
+  topic?: string;
+  subscription?: string;
+  status: string[];
+  limit?: string;
+  'max-messages-retention'?: string;
+  'max-message-age-in-ms'?: string;
+  help: boolean;
+};
+
+type CommandContext = { sql: Sql; values: CliValues };
+
+type Output = { json: unknown; text: string };
+
+const COMMANDS: Record<string, (context: CommandContext, args: string[]) => Promise<Output>> = {
+  'topics list': async ({ sql }) => {
+    const stats = await getStats(sql, sql`TRUE`);
+
+    return table(
+      Object.entries(stats.topics).map(([topicName, topicStats]) => ({
+        topic: topicName,
+        subscriptions: Object.keys(topicStats.subscriptions).length,
+        ...statsColumns(topicStats),
+      })),
+    );
+  },
+
+  'subscriptions list': async (context) => {
+    const stats = await getStats(context.sql, context.sql`TRUE`);
+
+    const topicNames = context.values.topic === undefined ? Object.keys(stats.topics) : [context.values.topic];
+
+    if (context.values.topic !== undefined && !stats.topics[context.values.topic]) {
+      throw new Error(`Topic "${context.values.topic}" not found`);
+    }
+
+    return table(
+      topicNames.flatMap((topicName) =>
+        Object.entries(stats.topics[topicName]!.subscriptions).map(([subscriptionName, subscriptionStats]) => ({
+          topic: topicName,
+          subscription: subscriptionName,
+          ...statsColumns(subscriptionStats),
+        })),
+      ),
+    );
+  },
+
+  'messages list': async (context) => {
+    const statuses = context.values.status.map((status) => {
+      if (!MESSAGE_STATUSES.includes(status as MessageStatus)) {
+        throw new UsageError(`Invalid status "${status}", expected one of ${MESSAGE_STATUSES.join(', ')}`);
+      }
+
+      return status as MessageStatus;
+    });
+
+    const limit = parseNumber(context.values.limit, '--limit') ?? 100;
+
+    if (context.values.subscription === undefined) {
+      if (statuses.length > 0) {
+        throw new UsageError('Filtering messages by status requires --subscription');
+      }
+
+      const topic = await getTopic(context);
+
+      return table(
+        (await topic.getMessages({ limit })).map((message) => ({
+          id: message.id,
+          createdAt: message.createdAt,
+          deliverAt: message.deliverAt,
+          key: message.key,
+          priority: message.priority,
+          data: message.data,
+        })),
+      );
+    }
+
+    const subscription = await getSubscription(context);
+
+    return table(
+      (await subscription.getMessages({ statuses, limit })).map((message) => ({
+        id: message.id,
+        status: message.status,
+        attempts: message.attempts,
+        createdAt: message.createdAt,
+        availableAt: message.availableAt,
+        error: message.errorStack,
+        data: message.data,
+      })),
+    );
+  },
+
+  'messages retry': async (context, messageIds) => {
+    const subscription = await getSubscription(context);
+
+    const count = await subscription.redrive(...messageIds);
+
+    return { json: { count }, text: `Retried ${count} failed messages` };
+  },
+
+  'messages remove': async (context, messageIds) => {
+    if (messageIds.length === 0) {
+      throw new UsageError('Missing ids of the messages to remove');
+    }
+
+    const invalidId = messageIds.find((messageId) => !isUuid(messageId));
+    if (invalidId !== undefined) {
+      throw new UsageError(`Invalid message id "${invalidId}"`);
+    }
+
+    const topic = await getTopic(context);
+
+    const { count } = await context.sql`
+      DELETE FROM pg_transit_messages
+      WHERE
+        topic_id = ${topic.id}
+        AND id = ANY (${context.sql.array(messageIds)}::uuid[])
+    `;
+
+    return { json: { count }, text: `Removed ${count} messages` };
+  },
+
+  'schedules list': async (context) => {
+    const topic = await getTopic(context);
+
+    return table(
+      (await topic.getScheduledMessages()).map((message) => ({
+        name: message.name,
+        cron: message.cron,
+        nextOccurrenceAt: message.nextOccurrenceAt,
+        repeatsMade: message.repeatsMade,
+        repeats: message.repeats,
+        data: message.data,
+      })),
+    );
+  },
+
+  'schedules remove': async (context, names) => {
+    if (names.length === 0) {
+      throw new UsageError('Missing names of the scheduled messages to remove');
+    }
+
+    const topic = await getTopic(context);
+
+    const scheduledMessages = (await topic.getScheduledMessages()).filter((message) => names.includes(message.name));
+
+    await Promise.all(scheduledMessages.map((message) => message.remove()));
+
+    return {
+      json: { count: scheduledMessages.length },
+      text: `Removed ${scheduledMessages.length} scheduled messages`,
+    };
+  },
+
+  trim: async (context) => {
+    const retention: TopicOptions = {
+      maxMessagesRetention: parseNumber(context.values['max-messages-retention'], '--max-messages-retention'),
+      maxMessageAgeInMs: parseNumber(context.values['max-message-age-in-ms'], '--max-message-age-in-ms'),
+    };
+
+    // The retention policy is not stored in the database, so it must be given
+    if (retention.maxMessagesRetention === undefined && retention.maxMessageAgeInMs === undefined) {
+      throw new UsageError('Missing --max-messages-retention or --max-message-age-in-ms');
+    }
+
+    const topics =
+      context.values.topic === undefined
+        ? (
+            await context.sql<{ name: string }[]>`
+              SELECT
+                name
+              FROM
+                pg_transit_topics
+            `
+          ).map(({ name }) => createTopic(context, name, retention))
+        : [await getTopic(context, retention)];
+
+    const counts = await Promise.all(topics.map((topic) => topic.trim()));
+    const count = counts.reduce((acc, count) => acc + count, 0);
+
+    return { json: { count }, text: `Trimmed ${count} messages` };
+  },
+
+  migrate: async ({ sql }) => {
+    await runMigrations(sql);
+
+    const version = migrations.at(-1)!.version;
+
+    return { json: { version }, text: `Database migrated to version ${version}` };
+  },
+};
+
+/**
+ * Run the `pg-transit` command-line tool with the given arguments, e.g. `process.argv.slice(2)`.
+ *
+ * @returns The exit code
+ */
+export async function runCli(argv: string[], options?: CliOptions): Promise<number> {
+  const env = options?.env ?? process.env;
+  const stdout = options?.stdout ?? ((text: string) => process.stdout.write(text));
+  const stderr = options?.stderr ?? ((text: string) => process.stderr.write(text));
+
+  let values: CliValues;
+  let positionals: string[];
+
+  try {
+    ({ values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+  } catch (e) {
+    stderr(`${(e as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  if (values.help) {
+    stdout(USAGE);
+    return 0;
+  }
+
+  // Commands are made of one or two words, followed by their arguments
+  const [name, commandArgs] = COMMANDS[positionals.slice(0, 2).join(' ')]
+    ? [positionals.slice(0, 2).join(' '), positionals.slice(2)]
+    : [positionals[0] ?? '', positionals.slice(1)];
+
+  const command = COMMANDS[name];
+
+  if (!command) {
+    stderr(
+      `${positionals.length === 0 ? 'Missing command' : `Unknown command "${positionals.join(' ')}"`}\n\n${USAGE}`,
+    );
+    return 1;
+  }
+
+  const url = values.url ?? env['DATABASE_URL'];
+  const sql = url === undefined ? postgres({ onnotice: () => {} }) : postgres(url, { onnotice: () => {} });
+
+  try {
+    const output = await command({ sql, values }, commandArgs);
+
+    stdout(`${values.json ? JSON.stringify(output.json, null, 2) : output.text}\n`);
+
+    return 0;
+  } catch (e) {
+    stderr(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : `${e instanceof Error ? e.message : e}\n`);
+
+    return 1;
+  } finally {
+    await sql.end();
+  }
+}
+
+class UsageError extends Error {}
+
+async function getTopic(context: CommandContext, options?: TopicOptions): Promise<Topic> {
+  const topicName = context.values.topic;
+
+  if (topicName === undefined) {
+    throw new UsageError('Missing --topic');
+  }
+
+  const [row] = await context.sql`
+    SELECT
+      id
+    FROM
+      pg_transit_topics
+    WHERE
+      name = ${topicName}
+  `;
+
+  // Declaring a topic creates it, so check it exists first
+  if (!row) {
+    throw new Error(`Topic "${topicName}" not found`);
+  }
+
+  const topic = createTopic(context, topicName, options);
+
+  await topic.waitInit();
+
+  return topic;
+}
+
+/**
+ * Declare a topic on the plain connection, without the migrations and maintenance loops of a `PgTransit` instance.
+ */
+function createTopic(context: CommandContext, topicName: string, options?: TopicOptions): Topic {
+  return new Topic({ sql: context.sql, pgTransitInit: Promise.resolve(), name: topicName }, options);
+}
+
+async function getSubscription(context: CommandContext): Promise<Subscription> {
+  const subscriptionName = context.values.subscription;
+
+  if (subscriptionName === undefined) {
+    throw new UsageError('Missing --subscription');
+  }
+
+  const topic = await getTopic(context);
+
+  const [row] = await context.sql`
+    SELECT
+      id
+    FROM
+      pg_transit_subscriptions
+    WHERE
+      topic_id = ${topic.id}
+      AND name = ${subscriptionName}
+  `;
+
+  if (!row) {
+    throw new Error(`Subscription "${subscriptionName}" on topic ${topic.name} not found`);
+  }
+
+  const subscription = topic.subscribe(subscriptionName, { onOptionsMismatch: 'ignore' });
+
+  await subscription.waitInit();
+
+  return subscription;
+}
+
+function statsColumns(stats: SubscriptionStats) {
+  return {
+    ...stats.counts,
+    delayed: stats.delayed,
+    oldestWaitingMessageAgeInMs: stats.oldestWaitingMessageAgeInMs,
+    processingRate: stats.processingRate,
+  };
+}
+
+function parseNumber(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+
+  if (value.trim() === '' || !Number.isInteger(number) || number < 0) {
+    throw new UsageError(`Invalid ${option} "${value}", expected a positive integer`);
+  }
+
+  return number;
+}
+
+function table(rows: Record<string, unknown>[]): Output {
+  if (rows.length === 0) {
+    return { json: rows, text: 'No results' };
+  }
+
+  const columns = Object.keys(rows[0]!);
+
+  const lines = [columns, ...rows.map((row) => columns.map((column) => formatCell(row[column])))];
+
+  const widths = columns.map((_, i) => Math.max(...lines.map((cells) => cells[i]!.length)));
+
+  return {
+    json: rows,
+    text: lines
+      .map((cells) =>
+        cells
+          .map((cell, i) => cell.padEnd(widths[i]!))
+          .join('  ')
+          .trimEnd(),
+      )
+      .join('\n'),
+  };
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value === 'string') {
+    return value.split('\n')[0]!; // First line of error stacks
+  }
+
+  return JSON.stringify(value);
+}
@@ -0,0 +1,118 @@
+import type { JSONValue } from 'postgres';
+
+/**
+ * Converts message data to and from the JSON stored in PostgreSQL.
+ */
+export type Codec = {
+  encode: (value: unknown) => JSONValue;
+  decode: (value: JSONValue) => unknown;
+};
+
+export function encodeMessageData(codec: Codec | undefined, data: unknown): JSONValue {
+  return codec ? codec.encode(data) : (data as JSONValue);
+}
+
+export function decodeMessageData<T>(codec: Codec | undefined, data: JSONValue): T {
+  return (codec ? codec.decode(data) : data) as T;
+}
+
+const TAGS = ['$date', '$bigint', '$number', '$undefined', '$map', '$set', '$binary', '$escape'];
+
+function isTagged(value: object): boolean {
+  const keys = Object.keys(value);
+
+  return keys.length === 1 && TAGS.includes(keys[0]!);
+}
+
+function encode(value: unknown): JSONValue {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+
+  if (value === undefined) {
+    return { $undefined: true };
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : { $number: String(value) };
+  }
+
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+
+  if (value instanceof Map) {
+    return { $map: [...value].map(([key, value]) => [encode(key), encode(value)]) };
+  }
+
+  if (value instanceof Set) {
+    return { $set: [...value].map(encode) };
+  }
+
+  if (value instanceof Uint8Array) {
+    return { $binary: Buffer.from(value).toString('base64') };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+
+  if (typeof value === 'object') {
+    const encoded = Object.fromEntries(Object.entries(value).map(([key, value]) => [key, encode(value)]));
+
+    // Escape objects that would otherwise be mistaken for an encoded value
+    return isTagged(encoded) ? { $escape: encoded } : encoded;
+  }
+
+  throw new TypeError(`Cannot encode value of type ${typeof value}`);
+}
+
+function decodeEntries(value: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).map(([key, value]) => [key, decode(value)]));
+}
+
+function decode(value: JSONValue): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (!isTagged(value)) {
+    return decodeEntries(value);
+  }
+
+  const tagged = value as Record<string, any>;
+
+  switch (Object.keys(tagged)[0]) {
+    case '$date':
+      return new Date(tagged['$date']);
+    case '$bigint':
+      return BigInt(tagged['$bigint']);
+    case '$number':
+      return Number(tagged['$number']);
+    case '$undefined':
+      return undefined;
+    case '$map':
+      return new Map(tagged['$map'].map(([key, value]: [JSONValue, JSONValue]) => [decode(key), decode(value)]));
+    case '$set':
+      return new Set(tagged['$set'].map(decode));
+    case '$binary':
+      return Buffer.from(tagged['$binary'], 'base64');
+    default:
+      return decodeEntries(tagged['$escape']);
+  }
+}
+
+/**
+ * A codec preserving `Date`, `bigint`, `Map`, `Set`, `Buffer` / `Uint8Array`, `undefined`, `NaN` and `Infinity` values.
+ *
+ * Such values are stored as single key objects (e.g. `{ "$date": "2025-01-01T00:00:00.000Z" }`), while plain JSON values keep their shape.
+ */
+export const extendedJsonCodec: Codec = { encode, decode };
@@ -1,8 +1,11 @@
 import { EventEmitter } from 'node:events';
-import type { SubscriptionMessage } from './subscription-message';
+import type { JSONValue, Sql } from 'postgres';
+import { NOTIFICATION_CHANNEL } from './notifications';
+import { MessageCancelledError, SubscriptionMessage } from './subscription-message';
+import { RateLimitError } from './rate-limit';
+import { getProducerLink, recordError, runInSpan, SpanKind, startSpan } from './tracing';
 import type { Subscription } from './subscription';
 import { loop, patchAsyncMethods } from './utils';
-import type { JSONValue } from 'postgres';
 
 export type ConsumerOptions = {
   /**
@@ -23,10 +26,20 @@ export type ConsumerOptions = {
    */
   autostart?: boolean;
 
+  /**
+   * Whether to listen for PostgreSQL notifications to consume new messages as soon as they are available.
+   *
+   * Listening consumers of a PgTransit instance share a single dedicated connection.
+   * Polling is kept as a safety net, and to pick up delayed messages once they become available.
+   *
+   * @default true
+   */
+  listen?: boolean;
+
   /**
    * The interval in milliseconds to poll for new messages.
    *
-   * @default 1000 // 1 second
+   * @default 5000 // 5 seconds when listening for notifications, 1 second otherwise
    */
   pollingIntervalInMs?: number;
 
@@ -36,21 +49,98 @@ export type ConsumerOptions = {
    * @default 10_000 // 10 seconds
    */
   heartbeatIntervalInMs?: number;
+
+  /**
+   * Whether to validate messages against the topic schema before handling them.
+   *
+   * Invalid messages are not passed to the handler and are failed with a `ValidationError`, following the subscription retry policy.
+   *
+   * @default false
+   */
+  validate?: boolean;
+
+  /**
+   * The maximum time in milliseconds a handler can take to process a message.
+   *
+   * Once exceeded, the message signal is aborted and the message is failed with a `TimeoutError`, following the subscription retry policy.
+   * The concurrency slot is freed even if the handler ignores the signal and never settles.
+   * Can be overridden per message with the `handlerTimeoutInMs` message option. Batches use the lowest timeout of their messages.
+   *
+   * @default undefined // No timeout
+   */
+  handlerTimeoutInMs?: number;
 };
 
-export class Consumer<T extends JSONValue> extends EventEmitter<{
+export type StopOptions = {
+  /**
+   * The maximum time in milliseconds to wait for messages being processed before releasing them back to waiting.
+   *
+   * @default undefined // Abort messages being processed right away and wait for their handlers
+   */
+  timeoutInMs?: number;
+};
+
+export type BatchConsumerOptions = ConsumerOptions & {
+  /**
+   * The maximum number of messages handled together in a batch.
+   *
+   * Batches of sequential subscriptions always contain a single message.
+   *
+   * @default 100
+   */
+  maxBatchSize?: number;
+
+  /**
+   * The maximum time in milliseconds to wait for more messages to fill a batch before handling it.
+   *
+   * @default 0 // Handle available messages right away
+   */
+  maxWaitInMs?: number;
+};
+
+/**
+ * The error messages are failed with when their handler exceeds its timeout.
+ */
+export class TimeoutError extends Error {
+  readonly timeoutInMs: number;
+
+  constructor(timeoutInMs: number, message = `Handler timed out after ${timeoutInMs}ms`) {
+    super(message);
+
+    this.name = 'TimeoutError';
+    this.timeoutInMs = timeoutInMs;
+  }
+}
+
+export type MessageHandler<T = JSONValue> = (message: SubscriptionMessage<T>) => void | Promise<void>;
+
+/**
+ * Handles a batch of messages.
+ *
+ * Messages completed or failed by the handler are left as is.
+ * Remaining messages are completed when the handler resolves, or failed with the thrown error when it rejects.
+ */
+export type BatchMessageHandler<T = JSONValue> = (messages: SubscriptionMessage<T>[]) => void | Promise<void>;
+
+export class Consumer<T = JSONValue> extends EventEmitter<{
   completed: [message: SubscriptionMessage<T>];
   failed: [message: SubscriptionMessage<T>, error: Error];
   process: [message: SubscriptionMessage<T>];
   progress: [message: SubscriptionMessage<T>];
   idle: [];
   consume: [];
+  error: [error: Error];
 }> {
   private readonly init: Promise<void>;
 
-  private readonly subscription: Subscription<T>;
+  private readonly sql: Sql;
+
+  readonly subscription: Subscription<T>;
+
+  private readonly handler: BatchMessageHandler<T>;
 
-  private readonly handler: (message: SubscriptionMessage<T>) => void | Promise<void>;
+  /** Whether the handler receives batches of messages instead of single messages */
+  private readonly batch: boolean;
 
   private _isStarted = false;
   get isStarted() {
@@ -59,6 +149,14 @@ export class Consumer<T extends JSONValue> extends EventEmitter<{
 
   private stopConsumeLoop?: () => void;
 
+  private listenRequest?: Promise<{ unlisten: () => Promise<void> } | undefined>;
+
+  /** Set when a notification is received while consuming, to check for new messages before becoming idle */
+  private wakeUpRequested = false;
+
+  /** Callbacks of batches waiting for more messages, called when a notification is received */
+  private readonly wakeUpListeners = new Set<() => void>();
+
   /** A promise that resolves when the consumer stops processing (becomes idle) */
   private waitIdlePromise?: Promise<void>;
 
@@ -66,45 +164,82 @@ export class Consumer<T extends JSONValue> extends EventEmitter<{
     return !this.waitIdlePromise;
   }
 
-  private consumingMessageCount = 0;
+  /** The number of batches being processed. Each message is its own batch for non batch consumers */
+  private consumingBatchCount = 0;
+
+  /** Messages being processed, to abort them on stop */
+  private readonly processingMessages = new Set<SubscriptionMessage<T>>();
+
+  /** Set from the stop until the consumer is started again, to not pick up new messages, even when abandoned handlers finish */
+  private isStopping = false;
 
   private _concurrency!: number;
   get concurrency() {
-    return this._concurrency;
+    // Ignore concurrency on sequential subscriptions. Checked on each access as the consumption mode can be updated
+    return this.subscription.consumptionMode === 'sequential' ? 1 : this._concurrency;
   }
   set concurrency(value: number) {
     if (value < 1) {
       throw new Error('Concurrency must be greater than 0');
     }
 
-    if (this.subscription.consumptionMode === 'sequential') {
-      this._concurrency = 1; // Ignore concurrency on sequential subscriptions
-    } else {
-      this._concurrency = value;
-    }
+    this._concurrency = value;
   }
 
+  readonly listen: boolean;
+
   readonly pollingIntervalInMs: number;
 
   readonly heartbeatIntervalInMs: number;
 
-  constructor(props: {
-    subscription: Subscription<T>;
-    handler: (message: SubscriptionMessage<T>) => void | Promise<void>;
-    options?: ConsumerOptions;
-  }) {
+  readonly validate: boolean;
+
+  readonly handlerTimeoutInMs?: number;
+
+  readonly maxBatchSize: number;
+
+  readonly maxWaitInMs: number;
+
+  constructor(
+    props: {
+      sql: Sql;
+      subscription: Subscription<T>;
+    } & (
+      | { handler: MessageHandler<T>; options?: ConsumerOptions }
+      | { batchHandler: BatchMessageHandler<T>; options?: BatchConsumerOptions }
+    ),
+  ) {
     super();
 
+    this.sql = props.sql;
     this.subscription = props.subscription;
-    this.handler = props.handler;
 
-    this.pollingIntervalInMs = props.options?.pollingIntervalInMs ?? 1_000; // Default to 1 second
+    if ('batchHandler' in props) {
+      this.handler = props.batchHandler;
+      this.batch = true;
+      this.maxBatchSize = props.options?.maxBatchSize ?? 100; // Default to 100
+      this.maxWaitInMs = props.options?.maxWaitInMs ?? 0; // Default to no wait
+    } else {
+      const handler = props.handler;
+      this.handler = async ([message]) => await handler(message!);
+      this.batch = false;
+      this.maxBatchSize = 1;
+      this.maxWaitInMs = 0;
+    }
+
+    if (this.maxBatchSize < 1) {
+      throw new Error('Max batch size must be greater than 0');
+    }
+
+    this.listen = props.options?.listen ?? true;
+    this.pollingIntervalInMs = props.options?.pollingIntervalInMs ?? (this.listen ? 5_000 : 1_000); // Default to 5 seconds when listening, 1 second otherwise
     this.heartbeatIntervalInMs = props.options?.heartbeatIntervalInMs ?? 10_000; // Default to 10 seconds
+    this.validate = props.options?.validate ?? false;
+    this.handlerTimeoutInMs = props.options?.handlerTimeoutInMs;
 
     this.init = (async () => {
       await (props.subscription as any).init;
 
-      // Set consumer concurrency after subscription is initialized to have access to consumption mode in the `set concurrency` setter
       this.concurrency = props.options?.concurrency ?? 1; // Default to 1
 
       const autostart = props.options?.autostart ?? true;
@@ -124,6 +259,7 @@ export class Consumer<T extends JSONValue> extends EventEmitter<{
     }
 
     this._isStarted = true;
+    this.isStopping = false;
 
     this.stopConsumeLoop = loop(
       async () => {
@@ -132,9 +268,26 @@ export class Consumer<T extends JSONValue> extends EventEmitter<{
       this.pollingIntervalInMs,
       { immediate: true },
     );
+
+    if (this.listen) {
+      this.listenRequest = this.sql
+        .listen(NOTIFICATION_CHANNEL, (subscriptionId) => {
+          if (subscriptionId === this.subscription.id) {
+            this.wakeUp();
+          }
+        })
+        .catch(() => undefined); // Polling keeps consuming messages if listening fails
+    }
   }
 
-  async stop() {
+  /**
+   * Stop consuming messages and wait for messages being processed.
+   *
+   * Without `timeoutInMs`, the signal of messages being processed is aborted right away and their handlers are awaited.
+   * With `timeoutInMs`, handlers are given up to `timeoutInMs` to finish. Messages still processing after that are aborted
+   * and released back to waiting without counting the attempt, without waiting for their handlers.
+   */
+  async stop(options?: StopOptions) {
     if (!this.isStarted) {
       return;
     }
@@ -143,22 +296,102 @@ export class Consumer<T extends JSONValue> extends EventEmitter<{
 
     this.stopConsumeLoop?.();
 
-    await this.waitIdle();
+    // Stop waiting for more messages to fill batches
+    this.wakeUpListeners.forEach((listener) => listener());
+
+    this.isStopping = true;
+
+    // Messages are not fetched anymore, a pending wake up would only delay the consumer idle state
+    this.wakeUpRequested = false;
+
+    const timeoutInMs = options?.timeoutInMs;
+
+    if (timeoutInMs === undefined) {
+      this.processingMessages.forEach((message) => message.abort(new Error('Consumer stopped')));
+    }
+
+    const listenRequest = this.listenRequest;
+    this.listenRequest = undefined;
+
+    await Promise.all([
+      timeoutInMs === undefined ? this.waitIdle() : this.drain(timeoutInMs),
+      listenRequest?.then((request) => request?.unlisten()),
+    ]);
+  }
+
+  private async drain(timeoutInMs: number) {
+    let timeout: Timer | undefined;
+
+    const isIdle = await Promise.race([
+      this.waitIdle().then(() => true),
+      new Promise<false>((resolve) => {
+        timeout = setTimeout(() => resolve(false), timeoutInMs);
+      }),
+    ]);
+
+    clearTimeout(timeout);
+
+    if (isIdle) {
+      return;
+    }
+
+    // Handlers still running are left behind, their messages are skipped once settled as they are no longer processing
+    const error = new Error(`Consumer stopped, handlers did not finish within ${timeoutInMs}ms`);
+
+    await Promise.all(
+      [...this.processingMessages].map(async (message) => {
+        message.abort(error);
+
+        if (message.status === 'processing') {
+          await message.release();
+        }
+      }),
+    );
   }
 
   async waitIdle() {
     await this.waitIdlePromise;
   }
 
+  /**
+   * Abort the signal of messages being processed by the consumer.
+   */
+  abortMessages(messageIds: string[], reason?: unknown): void {
+    this.processingMessages.forEach((message) => {
+      if (messageIds.includes(message.id)) {
+        message.abort(reason);
+      }
+    });
+  }
+
+  private wakeUp() {
+    if (!this.isStarted) {
+      return;
+    }
+
+    if (!this.isIdle) {
+      this.wakeUpRequested = true;
+    }
+
+    this.wakeUpListeners.forEach((listener) => listener());
+
+    void this.consume();
+  }
+
   async consume() {
     this.waitIdlePromise ??= new Promise((resolve) => {
       this.emit('consume');
 
+      this.wakeUpRequested = false;
+
       // This counter is used to track the number of consumeNextMessages calls in the event loop to be able to pass the consumer as idle only on last call
       let consumeNextMessagesCallCount = 0;
 
+      // Background processing is not awaited by callers, report its failures instead of leaving rejected promises
+      const onError = (error: Error) => this.emit('error', error);
+
       const consumeNextMessages = async () => {
-        const free = this.concurrency - this.consumingMessageCount;
+        const free = this.concurrency - this.consumingBatchCount;
 
         if (free <= 0) {
           return;
@@ -167,9 +400,18 @@ export class Consumer<T extends JSONValue> extends EventEmitter<{
         consumeNextMessagesCallCount++;
 
         try {
-          const messages = await this.subscription.getNextMessages(free);
+          const batches = this.isStopping ? [] : await this.getNextBatches(free);
+
+          if (batches.length === 0 && this.consumingBatchCount === 0 && consumeNextMessagesCallCount === 1) {
+            // A notification may have been received while fetching messages
+            if (this.wakeUpRequested) {
+              this.wakeUpRequested = false;
+
+              consumeNextMessages().catch(onError);
+
+              return;
+            }
 
-          if (messages.length === 0 && this.consumingMessageCount === 0 && consumeNextMessagesCallCount === 1) {
             this.waitIdlePromise = undefined;
 
             resolve();
@@ -179,64 +421,254 @@ export class Consumer<T extends JSONValue> extends EventEmitter<{
             return;
           }
 
-          // Process all messages in the background. Try to pick up next messages as soon as a consumer concurrency slot is free
-          messages.forEach(async (message) => {
-            await this.processMessage(message);
-
-            await consumeNextMessages();
+          // Process all batches in the background. Try to pick up next messages as soon as a consumer concurrency slot is free
+          batches.forEach((batch) => {
+            this.processBatch(batch)
+              .then(() => consumeNextMessages())
+              .catch(onError);
           });
         } finally {
           consumeNextMessagesCallCount--;
         }
       };
 
-      consumeNextMessages();
+      consumeNextMessages().catch(onError);
     });
 
     await this.waitIdlePromise;
   }
 
-  private async processMessage(message: SubscriptionMessage<T>) {
-    this.consumingMessageCount++;
+  private async getNextBatches(count: number): Promise<SubscriptionMessage<T>[][]> {
+    if (!this.batch) {
+      const messages = await this.subscription.getNextMessages(count);
+
+      return messages.map((message) => [message]);
+    }
+
+    const batches: SubscriptionMessage<T>[][] = [];
+
+    while (batches.length < count) {
+      const batch = await this.getNextBatch();
+
+      if (batch.length > 0) {
+        batches.push(batch);
+      }
+
+      // Fetching more batches is pointless when messages are missing to fill this one
+      if (batch.length < this.maxBatchSize) {
+        break;
+      }
+    }
+
+    return batches;
+  }
+
+  private async getNextBatch(): Promise<SubscriptionMessage<T>[]> {
+    // Sequential subscriptions deliver a single message at a time
+    const maxBatchSize = this.subscription.consumptionMode === 'sequential' ? 1 : this.maxBatchSize;
+
+    const messages = await this.subscription.getNextMessages(maxBatchSize);
+
+    if (messages.length === 0 || messages.length >= maxBatchSize || this.maxWaitInMs <= 0) {
+      return messages;
+    }
 
     const stopHeartbeatLoop = loop(async () => {
-      await message.heartbeat();
+      await SubscriptionMessage.heartbeatMany(messages);
     }, this.heartbeatIntervalInMs);
 
-    let error: Error | undefined;
+    try {
+      const waitUntil = Date.now() + this.maxWaitInMs;
+
+      while (messages.length < maxBatchSize && this.isStarted && Date.now() < waitUntil) {
+        // Wait for a notification or the end of the wait time, whichever comes first
+        await new Promise<void>((resolve) => {
+          const listener = () => {
+            clearTimeout(timeout);
+            this.wakeUpListeners.delete(listener);
+            resolve();
+          };
+
+          const timeout = setTimeout(listener, waitUntil - Date.now());
+
+          this.wakeUpListeners.add(listener);
+        });
+
+        messages.push(...(await this.subscription.getNextMessages(maxBatchSize - messages.length)));
+      }
+    } finally {
+      stopHeartbeatLoop();
+    }
+
+    return messages;
+  }
 
-    this.emit('process', message);
+  private async processBatch(messages: SubscriptionMessage<T>[]) {
+    this.consumingBatchCount++;
+
+    const stopHeartbeatLoop = loop(async () => {
+      await SubscriptionMessage.heartbeatMany(messages.filter((message) => message.status === 'processing'));
+    }, this.heartbeatIntervalInMs);
+
+    // Outcomes are tracked from message events because batch handlers may complete or fail messages themselves
+    const errors = new Map<SubscriptionMessage<T>, Error>();
 
     const progressListener = (message: SubscriptionMessage<T>) => {
       this.emit('progress', message);
     };
-    message.on('progress', progressListener);
+    const failedListener = (message: SubscriptionMessage<T>, error: Error) => {
+      errors.set(message, error);
+    };
+
+    messages.forEach((message) => {
+      this.processingMessages.add(message);
+
+      // Fetched while stopping
+      if (this.isStopping) {
+        message.abort(new Error('Consumer stopped'));
+      }
+
+      this.emit('process', message);
+
+      message.on('progress', progressListener);
+      message.on('failed', failedListener);
+    });
+
+    const topicName = this.subscription.topic.name;
+    const [firstMessage] = messages;
+
+    const span = startSpan(`process ${topicName}`, {
+      kind: SpanKind.CONSUMER,
+      attributes: {
+        'messaging.system': 'pg_transit',
+        'messaging.operation.type': 'process',
+        'messaging.destination.name': topicName,
+        'messaging.consumer.group.name': this.subscription.name,
+        ...(messages.length > 1
+          ? { 'messaging.batch.message_count': messages.length }
+          : { 'messaging.message.id': firstMessage!.id, 'pg_transit.message.attempt': firstMessage!.attempts }),
+      },
+      // Consumption is not part of the trace that triggered the consumer, messages are followed from the spans they were sent from
+      root: true,
+      links: messages.map((message) => getProducerLink(message.headers)).filter((link) => link !== undefined),
+    });
 
     try {
-      try {
-        await this.handler(message);
-      } catch (e) {
-        error = e as Error;
+      const validMessages: SubscriptionMessage<T>[] = [];
+      const invalidMessageErrors = new Map<SubscriptionMessage<T>, Error>();
+
+      const schema = this.subscription.topic.schema;
+      for (const message of messages) {
+        try {
+          if (this.validate && schema) {
+            // Pass the schema output (transforms, defaults...) to the handler
+            await message.validate(schema);
+          }
+
+          validMessages.push(message);
+        } catch (e) {
+          invalidMessageErrors.set(message, e as Error);
+        }
       }
 
-      if (error) {
-        await message.fail(error);
-      } else {
-        await message.complete();
+      let error: Error | undefined;
+
+      if (validMessages.length > 0) {
+        const handlerTimeoutInMs = Math.min(
+          ...validMessages.map((message) => message.handlerTimeoutInMs ?? this.handlerTimeoutInMs ?? Infinity),
+        );
+
+        let timeout: Timer | undefined;
+
+        try {
+          await Promise.race([
+            runInSpan(span, () => this.handler(validMessages)),
+            ...(Number.isFinite(handlerTimeoutInMs)
+              ? [
+                  new Promise<never>((_, reject) => {
+                    timeout = setTimeout(() => {
+                      const timeoutError = new TimeoutError(handlerTimeoutInMs);
+
+                      validMessages.forEach((message) => message.abort(timeoutError));
+
+                      reject(timeoutError);
+                    }, handlerTimeoutInMs);
+                  }),
+                ]
+              : []),
+          ]);
+        } catch (e) {
+          error = e as Error;
+        } finally {
+          clearTimeout(timeout);
+        }
+
+        if (error) {
+          recordError(span, error);
+        }
       }
+
+      if (error instanceof RateLimitError) {
+        await this.subscription.throttle(error.retryAfterInMs);
+
+        await Promise.all(
+          validMessages.filter((message) => message.status === 'processing').map((message) => message.release()),
+        );
+      }
+
+      await Promise.all(
+        messages.map(async (message) => {
+          // Already settled by the handler, or processed by someone else since it was reset as stale or cancelled
+          if (message.status !== 'processing' || message.signal.reason instanceof MessageCancelledError) {
+            return;
+          }
+
+          const messageError = invalidMessageErrors.get(message) ?? error;
+
+          // Interrupted by the consumer stop, let another consumer process it without counting the attempt
+          if (messageError && message.signal.aborted && this.isStopping && !(messageError instanceof TimeoutError)) {
+            await message.release();
+            return;
+          }
+
+          if (messageError) {
+            await message.fail(messageError);
+          } else {
+            await message.complete();
+          }
+        }),
+      );
+    } catch (e) {
+      recordError(span, e as Error);
+      throw e;
     } finally {
-      this.consumingMessageCount--;
+      if (messages.length === 1) {
+        span.setAttribute('pg_transit.message.status', firstMessage!.status);
+      }
+
+      span.end();
+
+      this.consumingBatchCount--;
 
       stopHeartbeatLoop();
 
-      message.off('progress', progressListener);
-    }
+      messages.forEach((message) => {
+        this.processingMessages.delete(message);
 
-    if (error) {
-      this.emit('failed', message, error);
-    } else {
-      this.emit('completed', message);
+        message.off('progress', progressListener);
+        message.off('failed', failedListener);
+      });
     }
+
+    messages.forEach((message) => {
+      const error = errors.get(message);
+
+      if (error) {
+        this.emit('failed', message, error);
+      } else if (message.status === 'completed') {
+        this.emit('completed', message);
+      }
+    });
   }
 }
 
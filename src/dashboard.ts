@@ -0,0 +1,574 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { validate as isUuid } from 'uuid';
+import type { SubscriptionStats } from './stats';
+import type { Subscription } from './subscription';
+import type { MessageStatus } from './subscription-message';
+import type { Topic } from './topic';
+
+export type DashboardOptions = {
+  /**
+   * Topics to show in the dashboard.
+   */
+  topics?: Topic<any>[];
+
+  /**
+   * Subscriptions to show in the dashboard. Their topics are shown as well.
+   */
+  subscriptions?: Subscription<any>[];
+
+  /**
+   * The path the dashboard is mounted on, used to build links.
+   *
+   * Requests paths may include it or not, to support frameworks stripping the mount path (e.g. Express `app.use()`).
+   *
+   * @default ''
+   */
+  basePath?: string;
+
+  /**
+   * The maximum number of messages listed per page.
+   *
+   * @default 50
+   */
+  pageSize?: number;
+
+  /**
+   * Called with unexpected errors, answered with a 500 response, e.g. to log them.
+   */
+  onError?: (error: unknown) => void;
+};
+
+const MESSAGE_STATUSES: MessageStatus[] = ['waiting', 'processing', 'completed', 'failed'];
+
+const CSRF_COOKIE = 'pg_transit_csrf';
+
+/**
+ * A web admin dashboard to inspect topics and subscriptions, and act on their messages.
+ *
+ * Exposes a `fetch` handler for frameworks built on web standards (Hono, Bun, Deno...), and a `nodeHandler` for `node:http` based ones (Express, Fastify...).
+ * The dashboard has no authentication, mount it behind your own.
+ * Actions are protected against cross-site requests with a token stored in a cookie and sent back by the dashboard forms.
+ *
+ * @example
+ * const dashboard = new Dashboard({ subscriptions: [subscription], basePath: '/admin' });
+ *
+ * app.use('/admin', dashboard.nodeHandler); // Express
+ * app.all('/admin/*', (c) => dashboard.fetch(c.req.raw)); // Hono
+ */
+export class Dashboard {
+  private readonly topics = new Map<string, Topic<any>>();
+
+  private readonly subscriptions = new Map<string, Subscription<any>[]>();
+
+  readonly basePath: string;
+
+  readonly pageSize: number;
+
+  private readonly onError?: (error: unknown) => void;
+
+  constructor(options: DashboardOptions) {
+    this.basePath = (options.basePath ?? '').replace(/\/+$/, '');
+    this.pageSize = options.pageSize ?? 50;
+    this.onError = options.onError;
+
+    for (const topic of options.topics ?? []) {
+      this.topics.set(topic.name, topic);
+    }
+
+    for (const subscription of options.subscriptions ?? []) {
+      if (!this.topics.has(subscription.topic.name)) {
+        this.topics.set(subscription.topic.name, subscription.topic);
+      }
+
+      const subscriptions = this.subscriptions.get(subscription.topic.name) ?? [];
+      subscriptions.push(subscription);
+      this.subscriptions.set(subscription.topic.name, subscriptions);
+    }
+  }
+
+  /**
+   * Handle a web standard request.
+   */
+  readonly fetch = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+
+    let path = url.pathname;
+    if (this.basePath && (path === this.basePath || path.startsWith(`${this.basePath}/`))) {
+      path = path.slice(this.basePath.length);
+    }
+
+    // Only tokens generated by the dashboard are accepted, as they are rendered in forms
+    const cookie = getCookie(request.headers, CSRF_COOKIE);
+    const cookieToken = cookie !== undefined && isUuid(cookie) ? cookie : undefined;
+
+    try {
+      const segments = path
+        .split('/')
+        .filter((segment) => segment !== '')
+        .map((segment) => decodeURIComponent(segment));
+
+      if (request.method === 'GET') {
+        const csrfToken = cookieToken ?? randomUUID();
+
+        const response = await this.handleGet(segments, url.searchParams, csrfToken);
+
+        if (cookieToken === undefined) {
+          response.headers.append(
+            'Set-Cookie',
+            `${CSRF_COOKIE}=${csrfToken}; Path=${this.basePath || '/'}; HttpOnly; SameSite=Strict`,
+          );
+        }
+
+        return response;
+      }
+
+      if (request.method === 'POST') {
+        const form = await request.formData().catch(() => new FormData());
+
+        // Cross-site requests can neither read nor set the cookie, so cannot send its token back
+        if (cookieToken === undefined || form.get('csrf') !== cookieToken) {
+          return new Response('Forbidden', { status: 403 });
+        }
+
+        return await this.handlePost(segments, form);
+      }
+
+      return new Response('Method Not Allowed', { status: 405 });
+    } catch (e) {
+      if (e instanceof NotFoundError) {
+        return new Response('Not Found', { status: 404 });
+      }
+
+      // Malformed percent-encoding in the path
+      if (e instanceof URIError) {
+        return new Response('Bad Request', { status: 400 });
+      }
+
+      this.onError?.(e);
+
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  };
+
+  /**
+   * Handle a `node:http` request, the same way as `fetch`.
+   */
+  readonly nodeHandler = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (value !== undefined) {
+          headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+        }
+      }
+
+      const request = new Request(new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`).href, {
+        method: req.method,
+        headers,
+        body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+      });
+
+      const response = await this.fetch(request);
+
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (e) {
+      // Errors of the request itself, e.g. an aborted upload, as `fetch` answers its own errors
+      this.onError?.(e);
+
+      if (!res.headersSent) {
+        res.writeHead(500);
+      }
+      res.end();
+    }
+  };
+
+  private async handleGet(segments: string[], searchParams: URLSearchParams, csrfToken: string): Promise<Response> {
+    const [root, topicName, sub, subscriptionName] = segments;
+
+    const page = Number(searchParams.get('page') ?? 1);
+    if (!Number.isInteger(page) || page < 1) {
+      throw new NotFoundError();
+    }
+
+    if (root === undefined) {
+      return html(await this.renderTopics());
+    }
+
+    if (root === 'topics' && topicName !== undefined && sub === undefined) {
+      return html(await this.renderTopic(this.getTopic(topicName), page, csrfToken));
+    }
+
+    if (root === 'topics' && topicName !== undefined && sub === 'subscriptions' && subscriptionName !== undefined) {
+      const status = searchParams.get('status') ?? 'failed';
+      if (!MESSAGE_STATUSES.includes(status as MessageStatus)) {
+        throw new NotFoundError();
+      }
+
+      return html(
+        await this.renderSubscription(
+          this.getSubscription(topicName, subscriptionName),
+          status as MessageStatus,
+          page,
+          csrfToken,
+        ),
+      );
+    }
+
+    throw new NotFoundError();
+  }
+
+  private async handlePost(segments: string[], form: FormData): Promise<Response> {
+    const [root, topicName, sub, name, ...action] = segments;
+
+    if (root !== 'topics' || topicName === undefined) {
+      throw new NotFoundError();
+    }
+
+    const topic = this.getTopic(topicName);
+
+    // /topics/:topic/pause and /topics/:topic/resume
+    if (sub === 'pause' || sub === 'resume') {
+      await (sub === 'pause' ? topic.pause() : topic.resume());
+
+      return this.redirect(['topics', topicName]);
+    }
+
+    // /topics/:topic/messages/:id/remove
+    if (sub === 'messages' && name !== undefined && action.join('/') === 'remove') {
+      const [message] = isUuid(name) ? await topic.getMessages({ ids: [name] }) : [];
+      await message?.remove();
+
+      return this.redirect(['topics', topicName]);
+    }
+
+    // /topics/:topic/scheduled-messages/:name/remove
+    if (sub === 'scheduled-messages' && name !== undefined && action.join('/') === 'remove') {
+      const scheduledMessage = (await topic.getScheduledMessages()).find((message) => message.name === name);
+      await scheduledMessage?.remove();
+
+      return this.redirect(['topics', topicName]);
+    }
+
+    if (sub !== 'subscriptions' || name === undefined) {
+      throw new NotFoundError();
+    }
+
+    const subscription = this.getSubscription(topicName, name);
+    const subscriptionPath = ['topics', topicName, 'subscriptions', name];
+
+    switch (action.join('/')) {
+      case 'pause':
+        await subscription.pause();
+        break;
+      case 'resume':
+        await subscription.resume();
+        break;
+      case 'redrive':
+        await subscription.redrive();
+        break;
+      case 'replay': {
+        const to = form.get('to');
+        if (typeof to !== 'string' || to === '') {
+          return new Response('Missing replay position', { status: 400 });
+        }
+
+        if (to === 'earliest' || to === 'latest' || isUuid(to)) {
+          await subscription.seek({ to });
+        } else if (!Number.isNaN(Date.parse(to))) {
+          await subscription.seek({ to: new Date(to) });
+        } else {
+          return new Response('Invalid replay position, expected earliest, latest, a date or a message id', {
+            status: 400,
+          });
+        }
+        break;
+      }
+      default: {
+        // /topics/:topic/subscriptions/:subscription/messages/:id/retry
+        const [messages, messageId, messageAction] = action;
+        if (messages !== 'messages' || messageId === undefined || messageAction !== 'retry') {
+          throw new NotFoundError();
+        }
+
+        const [message] = isUuid(messageId)
+          ? await subscription.getMessages({ statuses: ['failed'], ids: [messageId] })
+          : [];
+        await message?.retry();
+      }
+    }
+
+    return this.redirect(subscriptionPath);
+  }
+
+  private getTopic(topicName: string): Topic<any> {
+    const topic = this.topics.get(topicName);
+    if (!topic) {
+      throw new NotFoundError();
+    }
+
+    return topic;
+  }
+
+  private getSubscription(topicName: string, subscriptionName: string): Subscription<any> {
+    const subscription = this.subscriptions
+      .get(topicName)
+      ?.find((subscription) => subscription.name === subscriptionName);
+    if (!subscription) {
+      throw new NotFoundError();
+    }
+
+    return subscription;
+  }
+
+  private link(segments: string[]): string {
+    return `${this.basePath}/${segments.map((segment) => encodeURIComponent(segment)).join('/')}`;
+  }
+
+  private redirect(segments: string[]): Response {
+    return new Response(null, { status: 303, headers: { Location: this.link(segments) } });
+  }
+
+  private async renderTopics(): Promise<string> {
+    const sections = await Promise.all(
+      [...this.topics.values()].map(async (topic) => {
+        const stats = await topic.getStats();
+
+        const rows = (this.subscriptions.get(topic.name) ?? []).map((subscription) => {
+          const subscriptionStats = stats.subscriptions[subscription.name];
+
+          return `
+            <tr>
+              <td><a href="${this.link(['topics', topic.name, 'subscriptions', subscription.name])}">${escapeHtml(subscription.name)}</a></td>
+              ${renderStats(subscriptionStats)}
+              <td>${subscription.isPaused ? 'Paused' : 'Active'}</td>
+            </tr>
+          `;
+        });
+
+        return `
+          <h2><a href="${this.link(['topics', topic.name])}">${escapeHtml(topic.name)}</a>${topic.isPaused ? ' (paused)' : ''}</h2>
+          <table>
+            <tr><th>Subscription</th><th>Waiting</th><th>Delayed</th><th>Processing</th><th>Completed</th><th>Failed</th><th>Oldest waiting</th><th>State</th></tr>
+            ${rows.join('') || '<tr><td colspan="8">No subscriptions</td></tr>'}
+          </table>
+        `;
+      }),
+    );
+
+    return layout('Topics', sections.join('') || '<p>No topics</p>');
+  }
+
+  private async renderTopic(topic: Topic<any>, page: number, csrfToken: string): Promise<string> {
+    // One more message than the page size, to know whether there is a next page
+    const [scheduledMessages, messages] = await Promise.all([
+      topic.getScheduledMessages(),
+      topic.getMessages({ order: 'desc', limit: this.pageSize + 1, offset: (page - 1) * this.pageSize }),
+    ]);
+
+    const scheduledRows = scheduledMessages.map(
+      (message) => `
+        <tr>
+          <td>${escapeHtml(message.name)}</td>
+          <td><code>${escapeHtml(message.cron)}</code></td>
+          <td>${message.nextOccurrenceAt.toISOString()}</td>
+          <td>${message.repeatsMade}${message.repeats === undefined ? '' : ` / ${message.repeats}`}</td>
+          <td><pre>${escapeHtml(stringify(message.data))}</pre></td>
+          <td>${this.form(['topics', topic.name, 'scheduled-messages', message.name, 'remove'], 'Remove', csrfToken)}</td>
+        </tr>
+      `,
+    );
+
+    const messageRows = messages.slice(0, this.pageSize).map(
+      (message) => `
+        <tr>
+          <td><code>${message.id}</code></td>
+          <td>${message.createdAt.toISOString()}</td>
+          <td><pre>${escapeHtml(stringify(message.data))}</pre></td>
+          <td><pre>${escapeHtml(stringify(message.headers))}</pre></td>
+          <td>${this.form(['topics', topic.name, 'messages', message.id, 'remove'], 'Remove', csrfToken)}</td>
+        </tr>
+      `,
+    );
+
+    return layout(
+      `Topic ${topic.name}`,
+      `
+        <p><a href="${this.link([])}">Topics</a></p>
+        <p>${topic.isPaused ? 'Paused' : 'Active'} ${this.form(['topics', topic.name, topic.isPaused ? 'resume' : 'pause'], topic.isPaused ? 'Resume' : 'Pause', csrfToken)}</p>
+        <h2>Scheduled messages</h2>
+        <table>
+          <tr><th>Name</th><th>Cron</th><th>Next occurrence</th><th>Repeats</th><th>Data</th><th></th></tr>
+          ${scheduledRows.join('') || '<tr><td colspan="6">No scheduled messages</td></tr>'}
+        </table>
+        <h2>Messages, latest first</h2>
+        <table>
+          <tr><th>Id</th><th>Created at</th><th>Data</th><th>Headers</th><th></th></tr>
+          ${messageRows.join('') || '<tr><td colspan="5">No messages</td></tr>'}
+        </table>
+        ${this.pagination(['topics', topic.name], new URLSearchParams(), page, messages.length > this.pageSize)}
+      `,
+    );
+  }
+
+  private async renderSubscription(
+    subscription: Subscription<any>,
+    status: MessageStatus,
+    page: number,
+    csrfToken: string,
+  ): Promise<string> {
+    const topicName = subscription.topic.name;
+    const path = ['topics', topicName, 'subscriptions', subscription.name];
+
+    const [stats, messages] = await Promise.all([
+      subscription.getStats(),
+      subscription.getMessages({
+        statuses: [status],
+        order: 'desc',
+        limit: this.pageSize + 1,
+        offset: (page - 1) * this.pageSize,
+      }),
+    ]);
+
+    const tabs = MESSAGE_STATUSES.map((tab) =>
+      tab === status
+        ? `<strong>${tab} (${stats.counts[tab]})</strong>`
+        : `<a href="${this.link(path)}?status=${tab}">${tab} (${stats.counts[tab]})</a>`,
+    );
+
+    const rows = messages.slice(0, this.pageSize).map(
+      (message) => `
+        <tr>
+          <td><code>${message.id}</code></td>
+          <td>${message.createdAt.toISOString()}</td>
+          <td>${message.attempts} / ${message.maxAttempts}</td>
+          <td><pre>${escapeHtml(stringify(message.data))}</pre></td>
+          <td>${message.progress === undefined ? '' : `<pre>${escapeHtml(stringify(message.progress))}</pre>`}</td>
+          <td>${message.errorStack === undefined ? '' : `<pre>${escapeHtml(message.errorStack)}</pre>`}</td>
+          <td>${message.status === 'failed' ? this.form([...path, 'messages', message.id, 'retry'], 'Retry', csrfToken) : ''}</td>
+        </tr>
+      `,
+    );
+
+    return layout(
+      `Subscription ${subscription.name}`,
+      `
+        <p><a href="${this.link([])}">Topics</a> / <a href="${this.link(['topics', topicName])}">${escapeHtml(topicName)}</a></p>
+        <table>
+          <tr><th>Waiting</th><th>Delayed</th><th>Processing</th><th>Completed</th><th>Failed</th><th>Oldest waiting</th></tr>
+          <tr>${renderStats(stats)}</tr>
+        </table>
+        <p>
+          ${subscription.isPaused ? 'Paused' : 'Active'}
+          ${this.form([...path, subscription.isPaused ? 'resume' : 'pause'], subscription.isPaused ? 'Resume' : 'Pause', csrfToken)}
+          ${this.form([...path, 'redrive'], 'Retry all failed', csrfToken)}
+        </p>
+        <form method="post" action="${this.link([...path, 'replay'])}">
+          <input type="hidden" name="csrf" value="${csrfToken}">
+          <label>Replay from <input name="to" placeholder="earliest, latest, ISO date or message id" required></label>
+          <button type="submit">Replay</button>
+        </form>
+        <p>${tabs.join(' | ')}</p>
+        <table>
+          <tr><th>Id</th><th>Created at</th><th>Attempts</th><th>Data</th><th>Progress</th><th>Error</th><th></th></tr>
+          ${rows.join('') || '<tr><td colspan="7">No messages</td></tr>'}
+        </table>
+        ${this.pagination(path, new URLSearchParams({ status }), page, messages.length > this.pageSize)}
+      `,
+    );
+  }
+
+  private form(segments: string[], label: string, csrfToken: string): string {
+    return `<form method="post" action="${this.link(segments)}" style="display: inline"><input type="hidden" name="csrf" value="${csrfToken}"><button type="submit">${label}</button></form>`;
+  }
+
+  private pagination(segments: string[], searchParams: URLSearchParams, page: number, hasNextPage: boolean): string {
+    const pageLink = (label: string, page: number) => {
+      const params = new URLSearchParams(searchParams);
+      params.set('page', String(page));
+
+      return `<a href="${this.link(segments)}?${escapeHtml(params.toString())}">${label}</a>`;
+    };
+
+    return `<p>${[page > 1 ? pageLink('Previous', page - 1) : '', `Page ${page}`, hasNextPage ? pageLink('Next', page + 1) : ''].filter((part) => part !== '').join(' | ')}</p>`;
+  }
+}
+
+class NotFoundError extends Error {}
+
+function getCookie(headers: Headers, name: string): string | undefined {
+  for (const cookie of (headers.get('Cookie') ?? '').split(';')) {
+    const [cookieName, ...value] = cookie.trim().split('=');
+    if (cookieName === name) {
+      return value.join('=');
+    }
+  }
+
+  return undefined;
+}
+
+function renderStats(stats: SubscriptionStats | undefined): string {
+  if (!stats) {
+    return '<td colspan="6"></td>';
+  }
+
+  const oldestWaiting =
+    stats.oldestWaitingMessageAgeInMs === undefined ? '-' : `${Math.round(stats.oldestWaitingMessageAgeInMs / 1000)}s`;
+
+  return `
+    <td>${stats.counts.waiting}</td>
+    <td>${stats.delayed}</td>
+    <td>${stats.counts.processing}</td>
+    <td>${stats.counts.completed}</td>
+    <td>${stats.counts.failed}</td>
+    <td>${oldestWaiting}</td>
+  `;
+}
+
+function layout(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)} - pg-transit</title>
+    <style>
+      body { font-family: system-ui, sans-serif; margin: 2rem; }
+      table { border-collapse: collapse; margin-bottom: 1rem; }
+      th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+      pre { margin: 0; max-width: 40rem; max-height: 12rem; overflow: auto; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    ${body}
+  </body>
+</html>
+`;
+}
+
+function html(body: string): Response {
+  return new Response(body, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value); // e.g. bigint values decoded by a codec
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
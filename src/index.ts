@@ -1,7 +1,28 @@
-export { Consumer, type ConsumerOptions } from './consumer';
-export { Message, type MessageOptions } from './message';
+export { extendedJsonCodec, type Codec } from './codec';
+export {
+  Consumer,
+  TimeoutError,
+  type BatchConsumerOptions,
+  type BatchMessageHandler,
+  type ConsumerOptions,
+  type MessageHandler,
+  type StopOptions,
+} from './consumer';
+export { Message, type MessageHeaders, type MessageOptions } from './message';
 export { PgTransit, pgTransit, type PgTransitOptions } from './pg-transit';
+export { RateLimitError } from './rate-limit';
 export { ScheduledMessage, type ScheduledMessageConfig } from './scheduled-message';
-export { Subscription, type SubscriptionOptions } from './subscription';
-export { SubscriptionMessage, type MessageStatus } from './subscription-message';
-export { Topic, type TopicOptions } from './topic';
+export { type PgTransitStats, type StatsOptions, type SubscriptionStats, type TopicStats } from './stats';
+export {
+  Subscription,
+  type DeadLetter,
+  type RateLimit,
+  type RemoveMessagesPolicy,
+  type SubscriptionFilter,
+  type SubscriptionMessagesFilter,
+  type SubscriptionOptions,
+  type SubscriptionUpdateOptions,
+} from './subscription';
+export { MessageCancelledError, SubscriptionMessage, type MessageStatus } from './subscription-message';
+export { Topic, type TopicMessagesFilter, type TopicOptions } from './topic';
+export { ValidationError, type StandardSchemaV1 } from './validation';
@@ -1,61 +1,191 @@
-import type { JSONValue, Sql } from 'postgres';
+import type { JSONValue, Sql, TransactionSql } from 'postgres';
 import { v7 } from 'uuid';
+import { decodeMessageData, encodeMessageData, type Codec } from './codec';
+import { notifyTopicSubscriptions } from './notifications';
+import { injectTraceContext, SpanKind, withSpan } from './tracing';
 
-export async function insertMessages<T extends JSONValue>(
+/**
+ * SQL condition matching `pg_transit_messages` rows against the filter of `pg_transit_subscriptions` rows.
+ */
+export function matchSubscriptionFilter(sql: Sql) {
+  return sql`
+    (
+      pg_transit_subscriptions.filter IS NULL
+      OR (
+        (
+          pg_transit_subscriptions.filter -> 'data' IS NULL
+          OR pg_transit_messages.data @> (pg_transit_subscriptions.filter -> 'data')
+        )
+        AND (
+          pg_transit_subscriptions.filter -> 'headers' IS NULL
+          OR pg_transit_messages.headers @> (pg_transit_subscriptions.filter -> 'headers')
+        )
+        AND (
+          pg_transit_subscriptions.filter ->> 'jsonPath' IS NULL
+          OR JSONB_BUILD_OBJECT(
+            'data',
+            pg_transit_messages.data,
+            'headers',
+            pg_transit_messages.headers
+          ) @@ (pg_transit_subscriptions.filter ->> 'jsonPath')::jsonpath
+        )
+      )
+    )
+  `;
+}
+
+/**
+ * Insert messages and deliver them to the topic subscriptions.
+ *
+ * @returns `messages` in the same order as `data`, deduplicated messages being the already existing ones, and `insertedMessages` the newly inserted ones.
+ */
+export async function insertMessages<T, TTypes extends Record<string, unknown> = {}>(
   sql: Sql,
-  topicId: string,
+  topic: { id: string; name: string },
   data: T[],
-  options?: MessageOptions,
-): Promise<Message<T>[]> {
-  const createdAt = new Date();
+  options?: MessageOptions<T, TTypes>,
+  codec?: Codec,
+): Promise<{ messages: Message<T>[]; insertedMessages: Message<T>[] }> {
+  const topicId = topic.id;
 
-  let deliverAt: Date | undefined;
-  if (options?.deliverInMs) {
-    deliverAt = new Date(Date.now() + options.deliverInMs);
-  }
-  if (options?.deliverAt) {
-    deliverAt = options.deliverAt;
-  }
+  return await withSpan(
+    `send ${topic.name}`,
+    {
+      kind: SpanKind.PRODUCER,
+      attributes: {
+        'messaging.system': 'pg_transit',
+        'messaging.operation.type': 'send',
+        'messaging.destination.name': topic.name,
+        ...(data.length > 1 && { 'messaging.batch.message_count': data.length }),
+      },
+    },
+    async (span) => {
+      const createdAt = new Date();
 
-  const priority = options?.priority;
+      let deliverAt: Date | undefined;
+      if (options?.deliverInMs) {
+        deliverAt = new Date(Date.now() + options.deliverInMs);
+      }
+      if (options?.deliverAt) {
+        deliverAt = options.deliverAt;
+      }
 
-  const rows: MessageRow<T>[] = data.map((data) => ({
-    id: v7(),
-    topic_id: topicId,
-    data,
-    created_at: createdAt,
-    deliver_at: deliverAt ?? null,
-    priority: priority ?? null,
-  }));
+      const priority = options?.priority;
+      const key = options?.key;
+      // Consumers link their processing to the span the message was sent from
+      const headers = injectTraceContext(options?.headers ?? {});
+      const handlerTimeoutInMs = options?.handlerTimeoutInMs;
 
-  const ids = rows.map((row) => row.id);
+      const deduplicationExpiresAt =
+        options?.deduplicationWindowInMs !== undefined ? new Date(Date.now() + options.deduplicationWindowInMs) : null;
 
-  await sql.begin(async (sql) => {
-    await sql`
-      INSERT INTO
-        pg_transit_messages ${sql(rows)}
-    `;
+      const rows: MessageRow[] = data.map((data) => {
+        const deduplicationKey =
+          typeof options?.deduplicationKey === 'function' ? options.deduplicationKey(data) : options?.deduplicationKey;
 
-    await sql`
-      INSERT INTO
-        pg_transit_subscription_messages (subscription_id, message_id, available_at)
-      SELECT
-        pg_transit_subscriptions.id,
-        pg_transit_messages.id,
-        ${deliverAt ?? null}
-      FROM
-        pg_transit_subscriptions
-        JOIN pg_transit_messages ON pg_transit_messages.topic_id = ${topicId}
-      WHERE
-        pg_transit_subscriptions.topic_id = ${topicId}
-        AND pg_transit_messages.id = ANY (${sql.array(ids)}::uuid[])
-    `;
-  });
+        return {
+          id: v7(),
+          topic_id: topicId,
+          data: encodeMessageData(codec, data),
+          created_at: createdAt,
+          deliver_at: deliverAt ?? null,
+          priority: priority ?? null,
+          key: key ?? null,
+          headers,
+          handler_timeout_in_ms: handlerTimeoutInMs ?? null,
+          deduplication_key: deduplicationKey ?? null,
+          deduplication_expires_at: deduplicationKey !== undefined ? deduplicationExpiresAt : null,
+        };
+      });
+
+      const deduplicationKeys = [
+        ...new Set(rows.map((row) => row.deduplication_key).filter((key): key is string => key !== null)),
+      ];
+
+      const insert = async (sql: Sql) => {
+        if (deduplicationKeys.length > 0) {
+          // Release deduplication keys whose window is over
+          await sql`
+            UPDATE pg_transit_messages
+            SET
+              deduplication_key = NULL,
+              deduplication_expires_at = NULL
+            WHERE
+              topic_id = ${topicId}
+              AND deduplication_key = ANY (${sql.array(deduplicationKeys)}::TEXT[])
+              AND deduplication_expires_at <= ${createdAt}
+          `;
+        }
+
+        const insertedRows: { id: string }[] = await sql`
+          INSERT INTO
+            pg_transit_messages ${sql(rows)}
+          ON CONFLICT (topic_id, deduplication_key) DO NOTHING
+          RETURNING
+            id
+        `;
+
+        const insertedIds = new Set(insertedRows.map((row) => row.id));
+
+        const existingRows = new Map<string, MessageRow>();
+
+        if (insertedIds.size < rows.length) {
+          const duplicatedRows: MessageRow[] = await sql`
+            SELECT
+              *
+            FROM
+              pg_transit_messages
+            WHERE
+              topic_id = ${topicId}
+              AND deduplication_key = ANY (${sql.array(deduplicationKeys)}::TEXT[])
+          `;
+
+          duplicatedRows.forEach((row) => existingRows.set(row.deduplication_key!, row));
+        }
 
-  return rows.map((row) => new Message(sql, row));
+        if (insertedIds.size > 0) {
+          await sql`
+            INSERT INTO
+              pg_transit_subscription_messages (subscription_id, message_id, available_at)
+            SELECT
+              pg_transit_subscriptions.id,
+              pg_transit_messages.id,
+              ${deliverAt ?? null}
+            FROM
+              pg_transit_subscriptions
+              JOIN pg_transit_messages ON pg_transit_messages.topic_id = ${topicId}
+            WHERE
+              pg_transit_subscriptions.topic_id = ${topicId}
+              AND pg_transit_messages.id = ANY (${sql.array([...insertedIds])}::uuid[])
+              AND ${matchSubscriptionFilter(sql)}
+          `;
+
+          // Delayed messages are picked up by consumers polling once available
+          if (!deliverAt || deliverAt <= createdAt) {
+            await notifyTopicSubscriptions(sql, topicId);
+          }
+        }
+
+        return rows.map((row) => (insertedIds.has(row.id) ? row : existingRows.get(row.deduplication_key!)!));
+      };
+
+      const resultRows = options?.tx ? await insert(options.tx) : await sql.begin(insert);
+
+      const messages = resultRows.map((row) => new Message<T>(sql, row, codec));
+
+      if (messages.length === 1) {
+        span.setAttribute('messaging.message.id', messages[0]!.id);
+      }
+
+      return {
+        messages,
+        insertedMessages: messages.filter((message, i) => message.id === rows[i]!.id),
+      };
+    },
+  );
 }
 
-export type MessageOptions = {
+export type MessageOptions<T = JSONValue, TTypes extends Record<string, unknown> = {}> = {
   /**
    * Delay the message by a given amount of milliseconds before it is delivered to the subscriptions.
    *
@@ -78,18 +208,74 @@ export type MessageOptions = {
    * Messages with no priority are processed after messages with priority (no priority is the lowest priority).
    */
   priority?: number;
+
+  /**
+   * Message key, e.g. the id of the entity the message is about.
+   *
+   * On parallel subscriptions, a message is not handed out to consumers while an earlier message with the same key is still waiting or processing.
+   * This guarantees ordered processing of messages sharing a key, while messages with different keys are processed in parallel.
+   */
+  key?: string;
+
+  /**
+   * Message headers, to carry metadata alongside the message data (e.g. trace ids, tenant ids, content types, producer names).
+   *
+   * @default {}
+   */
+  headers?: MessageHeaders;
+
+  /**
+   * The maximum time in milliseconds a consumer handler can take to process the message.
+   *
+   * @default ConsumerOptions.handlerTimeoutInMs
+   */
+  handlerTimeoutInMs?: number;
+
+  /**
+   * A key identifying the message to prevent it from being sent twice to the topic, e.g. when a producer retries after a network error.
+   *
+   * Sending a message with the key of a message still retained in the topic does not insert anything and returns the existing message instead.
+   * When sending messages in bulk, pass a function to compute the key of each message.
+   *
+   * Not supported on scheduled messages.
+   */
+  deduplicationKey?: string | ((data: T) => string);
+
+  /**
+   * The duration in milliseconds during which the deduplication key prevents duplicates.
+   *
+   * @default Infinity // As long as the message is retained in the topic
+   */
+  deduplicationWindowInMs?: number;
+
+  /**
+   * A transaction to send the message in, obtained from your own `sql.begin()` call.
+   *
+   * The message is only delivered to the subscriptions once the transaction is committed, and is dropped if the transaction is rolled back.
+   * This allows to atomically write your business data and publish the messages describing it (transactional outbox).
+   *
+   * The topic `send` and `schedule` events are not emitted for messages sent in a transaction, as it may still be rolled back.
+   */
+  tx?: TransactionSql<TTypes>;
 };
 
-export type MessageRow<T extends JSONValue> = {
+export type MessageHeaders = Record<string, string>;
+
+export type MessageRow = {
   id: string;
   topic_id: string;
-  data: T;
+  data: JSONValue;
   created_at: Date;
   deliver_at: Date | null;
   priority: number | null;
+  key: string | null;
+  headers: MessageHeaders;
+  handler_timeout_in_ms: number | null;
+  deduplication_key: string | null;
+  deduplication_expires_at: Date | null;
 };
 
-export class Message<T extends JSONValue> {
+export class Message<T = JSONValue> {
   get id(): string {
     return this.row.id;
   }
@@ -98,8 +284,9 @@ export class Message<T extends JSONValue> {
     return this.row.topic_id;
   }
 
+  private readonly _data: T;
   get data(): T {
-    return this.row.data;
+    return this._data;
   }
 
   get createdAt(): Date {
@@ -114,10 +301,29 @@ export class Message<T extends JSONValue> {
     return this.row.priority ?? undefined;
   }
 
+  get key(): string | undefined {
+    return this.row.key ?? undefined;
+  }
+
+  get headers(): MessageHeaders {
+    return this.row.headers;
+  }
+
+  get handlerTimeoutInMs(): number | undefined {
+    return this.row.handler_timeout_in_ms ?? undefined;
+  }
+
+  get deduplicationKey(): string | undefined {
+    return this.row.deduplication_key ?? undefined;
+  }
+
   constructor(
     private readonly sql: Sql,
-    private readonly row: MessageRow<T>,
-  ) {}
+    private readonly row: MessageRow,
+    codec?: Codec,
+  ) {
+    this._data = decodeMessageData(codec, row.data);
+  }
 
   async remove(): Promise<void> {
     await this.sql`
@@ -0,0 +1,300 @@
+import type { Consumer } from './consumer';
+import type { PgTransit } from './pg-transit';
+import type { SubscriptionMessage } from './subscription-message';
+import type { Topic } from './topic';
+
+/**
+ * The content type of the Prometheus text exposition format, to serve `metrics.render()` with.
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type MetricsOptions = {
+  /**
+   * The prefix of all metric names.
+   *
+   * @default 'pg_transit_'
+   */
+  prefix?: string;
+
+  /**
+   * The buckets in seconds of the message processing duration histogram.
+   *
+   * @default [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+   */
+  durationBucketsInSeconds?: number[];
+};
+
+type Labels = Record<string, string>;
+
+/**
+ * Prometheus metrics of a PgTransit instance.
+ *
+ * Counters and histograms are recorded from the events of observed topics and consumers, and stale message resets of the PgTransit instance.
+ * Gauges (queue depth, oldest waiting message age...) are read from the database on each `render()` call, i.e. on each scrape.
+ *
+ * @example
+ * const metrics = new Metrics(transit).observeTopic(topic).observeConsumer(consumer);
+ *
+ * app.get('/metrics', async () => new Response(await metrics.render(), { headers: { 'Content-Type': METRICS_CONTENT_TYPE } }));
+ */
+export class Metrics {
+  private readonly transit: PgTransit<any>;
+
+  private readonly prefix: string;
+
+  private readonly sentMessages: Counter;
+
+  private readonly trimmedMessages: Counter;
+
+  private readonly processedMessages: Counter;
+
+  private readonly staleMessages: Counter;
+
+  private readonly processingDuration: Histogram;
+
+  /** Processing start time of messages being processed by observed consumers */
+  private readonly processingStartedAt = new WeakMap<SubscriptionMessage<any>, number>();
+
+  constructor(transit: PgTransit<any>, options?: MetricsOptions) {
+    this.transit = transit;
+
+    this.prefix = options?.prefix ?? 'pg_transit_';
+
+    this.sentMessages = new Counter(`${this.prefix}messages_sent_total`, 'Messages sent to the topic');
+    this.trimmedMessages = new Counter(
+      `${this.prefix}messages_trimmed_total`,
+      'Acknowledged messages removed from the topic by the retention policy',
+    );
+    this.processedMessages = new Counter(
+      `${this.prefix}messages_processed_total`,
+      'Messages processed by consumers, by outcome. Failed messages may be retried',
+    );
+    this.staleMessages = new Counter(
+      `${this.prefix}stale_messages_total`,
+      'Messages reset after their consumer stopped sending heartbeats',
+    );
+    this.processingDuration = new Histogram(
+      `${this.prefix}message_processing_duration_seconds`,
+      'Duration of message processing by consumers',
+      options?.durationBucketsInSeconds ?? [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    );
+
+    transit.on('stale', ({ topicName, subscriptionName }) => {
+      this.staleMessages.inc({ topic: topicName, subscription: subscriptionName });
+    });
+  }
+
+  /**
+   * Record messages sent to and trimmed from the topic.
+   *
+   * Messages sent in a transaction (`tx` option) are not recorded, as the transaction may still be rolled back.
+   */
+  observeTopic(topic: Topic<any>): this {
+    topic.on('send', () => {
+      this.sentMessages.inc({ topic: topic.name });
+    });
+
+    topic.on('trim', (count) => {
+      this.trimmedMessages.inc({ topic: topic.name }, count);
+    });
+
+    return this;
+  }
+
+  /**
+   * Record messages processed by the consumer, and their processing duration.
+   */
+  observeConsumer(consumer: Consumer<any>): this {
+    const labels = { topic: consumer.subscription.topic.name, subscription: consumer.subscription.name };
+
+    const onProcessed = (message: SubscriptionMessage<any>, status: 'completed' | 'failed') => {
+      this.processedMessages.inc({ ...labels, status });
+
+      const startedAt = this.processingStartedAt.get(message);
+      if (startedAt !== undefined) {
+        this.processingDuration.observe(labels, (performance.now() - startedAt) / 1000);
+        this.processingStartedAt.delete(message);
+      }
+    };
+
+    consumer.on('process', (message) => {
+      this.processingStartedAt.set(message, performance.now());
+    });
+
+    consumer.on('completed', (message) => onProcessed(message, 'completed'));
+
+    consumer.on('failed', (message) => onProcessed(message, 'failed'));
+
+    return this;
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format.
+   */
+  async render(): Promise<string> {
+    const stats = await this.transit.getStats();
+
+    const messages = new Gauge(`${this.prefix}subscription_messages`, 'Subscription messages, by status');
+    const delayedMessages = new Gauge(
+      `${this.prefix}subscription_delayed_messages`,
+      'Waiting subscription messages not available yet, because of a delayed delivery or a retry delay',
+    );
+    const oldestWaitingMessageAge = new Gauge(
+      `${this.prefix}subscription_oldest_waiting_message_age_seconds`,
+      'Age of the oldest waiting message available for consumption, i.e. how far behind consumers are',
+    );
+
+    for (const [topicName, topicStats] of Object.entries(stats.topics)) {
+      for (const [subscriptionName, subscriptionStats] of Object.entries(topicStats.subscriptions)) {
+        const labels = { topic: topicName, subscription: subscriptionName };
+
+        for (const [status, count] of Object.entries(subscriptionStats.counts)) {
+          messages.set({ ...labels, status }, count);
+        }
+
+        delayedMessages.set(labels, subscriptionStats.delayed);
+
+        oldestWaitingMessageAge.set(labels, (subscriptionStats.oldestWaitingMessageAgeInMs ?? 0) / 1000);
+      }
+    }
+
+    return [
+      this.sentMessages,
+      this.trimmedMessages,
+      this.processedMessages,
+      this.staleMessages,
+      this.processingDuration,
+      messages,
+      delayedMessages,
+      oldestWaitingMessageAge,
+    ]
+      .map((metric) => metric.render())
+      .join('');
+  }
+}
+
+abstract class Metric<V> {
+  protected readonly series = new Map<string, { labels: Labels; value: V }>();
+
+  protected abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  protected getSeries(labels: Labels, initialValue: () => V): { labels: Labels; value: V } {
+    const key = JSON.stringify(labels);
+
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: initialValue() };
+      this.series.set(key, series);
+    }
+
+    return series;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: V): string[];
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+class Counter extends Metric<number> {
+  protected readonly type = 'counter';
+
+  inc(labels: Labels, value = 1) {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+class Gauge extends Metric<number> {
+  protected readonly type = 'gauge';
+
+  set(labels: Labels, value: number) {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  protected readonly type = 'histogram';
+
+  private readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help);
+
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number) {
+    const series = this.getSeries(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+
+    this.buckets.forEach((bucket, i) => {
+      if (value <= bucket) {
+        series.value.buckets[i]!++;
+      }
+    });
+
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  protected renderSeries(labels: Labels, value: { buckets: number[]; sum: number; count: number }): string[] {
+    return [
+      ...this.buckets.map(
+        (bucket, i) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bucket) })} ${formatValue(value.buckets[i]!)}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${formatValue(value.count)}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${formatValue(value.count)}`,
+    ];
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+
+  return value.toString();
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
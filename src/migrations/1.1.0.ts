@@ -0,0 +1,8 @@
+export const migration1_1_0 = `
+-- Message keys
+ALTER TABLE pg_transit_messages ADD COLUMN IF NOT EXISTS key TEXT;
+
+CREATE INDEX IF NOT EXISTS pg_transit_messages_topic_id_key_idx ON pg_transit_messages (topic_id, key, id) WHERE key IS NOT NULL;
+
+ALTER TABLE pg_transit_scheduled_messages ADD COLUMN IF NOT EXISTS key TEXT;
+`;
@@ -0,0 +1,4 @@
+export const migration1_10_0 = `
+-- Dead letter topics stored on subscriptions, to dead-letter messages failed by any process
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS dead_letter_topic_id UUID REFERENCES pg_transit_topics(id) ON DELETE SET NULL;
+`;
@@ -0,0 +1,4 @@
+export const migration1_11_0 = `
+-- Delivery counts identify the current processing of messages, as released messages get their attempt back
+ALTER TABLE pg_transit_subscription_messages ADD COLUMN IF NOT EXISTS delivery_count INTEGER NOT NULL DEFAULT 0;
+`;
@@ -0,0 +1,7 @@
+export const migration1_2_0 = `
+-- Message deduplication
+ALTER TABLE pg_transit_messages ADD COLUMN IF NOT EXISTS deduplication_key TEXT;
+ALTER TABLE pg_transit_messages ADD COLUMN IF NOT EXISTS deduplication_expires_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS pg_transit_messages_topic_id_deduplication_key_idx ON pg_transit_messages (topic_id, deduplication_key);
+`;
@@ -0,0 +1,8 @@
+export const migration1_3_0 = `
+-- Message headers
+ALTER TABLE pg_transit_messages ADD COLUMN IF NOT EXISTS headers JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS pg_transit_messages_headers_idx ON pg_transit_messages USING GIN (headers);
+
+ALTER TABLE pg_transit_scheduled_messages ADD COLUMN IF NOT EXISTS headers JSONB NOT NULL DEFAULT '{}';
+`;
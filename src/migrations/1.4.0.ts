@@ -0,0 +1,4 @@
+export const migration1_4_0 = `
+-- Subscription filters
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS filter JSONB;
+`;
@@ -0,0 +1,7 @@
+export const migration1_5_0 = `
+-- Subscription rate limiting
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS rate_limit JSONB;
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS rate_limit_tokens DOUBLE PRECISION;
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS rate_limit_refilled_at TIMESTAMPTZ;
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS throttled_until TIMESTAMPTZ;
+`;
@@ -0,0 +1,4 @@
+export const migration1_6_0 = `
+-- Subscription global concurrency
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS global_concurrency INTEGER;
+`;
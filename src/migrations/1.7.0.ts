@@ -0,0 +1,11 @@
+export const migration1_7_0 = `
+-- Subscription messages cleanup
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS remove_on_complete JSONB;
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS remove_on_fail JSONB;
+
+ALTER TABLE pg_transit_subscription_messages ADD COLUMN IF NOT EXISTS finished_at TIMESTAMPTZ;
+
+UPDATE pg_transit_subscription_messages SET finished_at = NOW() WHERE status IN ('completed', 'failed') AND finished_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS pg_transit_subscription_messages_finished_at_idx ON pg_transit_subscription_messages (finished_at);
+`;
@@ -0,0 +1,5 @@
+export const migration1_8_0 = `
+-- Pause topics and subscriptions
+ALTER TABLE pg_transit_topics ADD COLUMN IF NOT EXISTS paused BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE pg_transit_subscriptions ADD COLUMN IF NOT EXISTS paused BOOLEAN NOT NULL DEFAULT FALSE;
+`;
@@ -0,0 +1,6 @@
+export const migration1_9_0 = `
+-- Message handler timeouts
+ALTER TABLE pg_transit_messages ADD COLUMN IF NOT EXISTS handler_timeout_in_ms INTEGER;
+
+ALTER TABLE pg_transit_scheduled_messages ADD COLUMN IF NOT EXISTS handler_timeout_in_ms INTEGER;
+`;
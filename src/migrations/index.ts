@@ -1,11 +1,66 @@
 import type { Sql } from 'postgres';
 import { migration1_0_0 } from './1.0.0';
+import { migration1_10_0 } from './1.10.0';
+import { migration1_11_0 } from './1.11.0';
+import { migration1_1_0 } from './1.1.0';
+import { migration1_2_0 } from './1.2.0';
+import { migration1_3_0 } from './1.3.0';
+import { migration1_4_0 } from './1.4.0';
+import { migration1_5_0 } from './1.5.0';
+import { migration1_6_0 } from './1.6.0';
+import { migration1_7_0 } from './1.7.0';
+import { migration1_8_0 } from './1.8.0';
+import { migration1_9_0 } from './1.9.0';
 
 export const migrations: { version: string; sql: string }[] = [
   {
     version: '1.0.0',
     sql: migration1_0_0,
   },
+  {
+    version: '1.1.0',
+    sql: migration1_1_0,
+  },
+  {
+    version: '1.2.0',
+    sql: migration1_2_0,
+  },
+  {
+    version: '1.3.0',
+    sql: migration1_3_0,
+  },
+  {
+    version: '1.4.0',
+    sql: migration1_4_0,
+  },
+  {
+    version: '1.5.0',
+    sql: migration1_5_0,
+  },
+  {
+    version: '1.6.0',
+    sql: migration1_6_0,
+  },
+  {
+    version: '1.7.0',
+    sql: migration1_7_0,
+  },
+  {
+    version: '1.8.0',
+    sql: migration1_8_0,
+  },
+  {
+    version: '1.9.0',
+    sql: migration1_9_0,
+  },
+  {
+    version: '1.10.0',
+    sql: migration1_10_0,
+  },
+  {
+    version: '1.11.0',
+    sql: migration1_11_0,
+  },
 ];
 
 export async function runMigrations(sql: Sql) {
@@ -0,0 +1,31 @@
+import type { Sql } from 'postgres';
+
+/**
+ * The PostgreSQL channel used to wake up consumers.
+ * Each notification payload is the id of a subscription that may have messages ready to be consumed.
+ */
+export const NOTIFICATION_CHANNEL = 'pg_transit';
+
+export async function notifySubscriptions(sql: Sql, subscriptionIds: string[]): Promise<void> {
+  if (subscriptionIds.length === 0) {
+    return;
+  }
+
+  await sql`
+    SELECT
+      pg_notify (${NOTIFICATION_CHANNEL}, id::TEXT)
+    FROM
+      UNNEST(${sql.array(subscriptionIds)}::uuid[]) AS id
+  `;
+}
+
+export async function notifyTopicSubscriptions(sql: Sql, topicId: string): Promise<void> {
+  await sql`
+    SELECT
+      pg_notify (${NOTIFICATION_CHANNEL}, id::TEXT)
+    FROM
+      pg_transit_subscriptions
+    WHERE
+      topic_id = ${topicId}
+  `;
+}
@@ -2,10 +2,17 @@ import CronExpressionParser from 'cron-parser';
 import { EventEmitter } from 'node:events';
 import type { JSONValue, Options, PostgresType, Sql } from 'postgres';
 import postgres from 'postgres';
+import type { Codec } from './codec';
+import type { StopOptions } from './consumer';
 import { insertMessages, Message } from './message';
 import { runMigrations } from './migrations';
+import { notifySubscriptions } from './notifications';
 import type { ScheduledMessageRow } from './scheduled-message';
+import { getStats, type PgTransitStats, type StatsOptions } from './stats';
+import { removeSubscriptionMessages, type SubscriptionRow } from './subscription';
+import { sendDeadLetters } from './subscription-message';
 import { Topic, type TopicOptions } from './topic';
+import { withSpan } from './tracing';
 import { loop, patchAsyncMethods } from './utils';
 
 export type PgTransitOptions = {
@@ -32,15 +39,33 @@ export type PgTransitOptions = {
    */
   resetStaleMessagesIntervalInMs?: number;
 
+  /**
+   * The interval in milliseconds to remove completed and failed messages of subscriptions with a `removeOnComplete` or `removeOnFail` policy.
+   *
+   * @default 60_000 // 1 minute
+   */
+  cleanupSubscriptionsIntervalInMs?: number;
+
   /**
    * Interval in milliseconds to check for scheduled messages to process.
    *
    * @default 5_000 // 5 seconds
    */
   scheduledMessagesProcessingIntervalInMs?: number;
+
+  /**
+   * A codec to convert message data to and from the JSON stored in PostgreSQL, applied to all topics not defining their own codec.
+   *
+   * Topics of a PgTransit instance with a codec accept any data type.
+   *
+   * @default undefined // Data is stored as is and must be JSON
+   */
+  codec?: Codec;
 };
 
-export function pgTransit(options: PgTransitOptions): PgTransit {
+export function pgTransit(options: PgTransitOptions & { codec: Codec }): PgTransit<unknown>;
+export function pgTransit(options: PgTransitOptions): PgTransit;
+export function pgTransit(options: PgTransitOptions): PgTransit<unknown> {
   const sql =
     typeof options.connection.url === 'string'
       ? postgres(options.connection.url, options.connection)
@@ -49,13 +74,15 @@ export function pgTransit(options: PgTransitOptions): PgTransit {
   return new PgTransit(sql, options);
 }
 
-export class PgTransit extends EventEmitter<{
-  stale: [{ messageId: string; subscriptionId: string }];
+export class PgTransit<TData = JSONValue> extends EventEmitter<{
+  stale: [{ messageId: string; subscriptionId: string; subscriptionName: string; topicName: string }];
 }> {
   private readonly init: Promise<void>;
 
   private readonly topics: Topic<any>[] = [];
 
+  readonly codec?: Codec;
+
   readonly trimTopicsIntervalInMs: number;
   private readonly stopTrimTopicsLoop: () => void;
 
@@ -63,6 +90,9 @@ export class PgTransit extends EventEmitter<{
   readonly resetStaleMessagesIntervalInMs: number;
   private readonly stopResetStaleMessagesLoop: () => void;
 
+  readonly cleanupSubscriptionsIntervalInMs: number;
+  private readonly stopCleanupSubscriptionsLoop: () => void;
+
   readonly scheduledMessagesProcessingIntervalInMs: number;
   private readonly stopScheduledMessagesProcessingLoop: () => void;
 
@@ -77,7 +107,9 @@ export class PgTransit extends EventEmitter<{
     this.trimTopicsIntervalInMs = options?.trimTopicsIntervalInMs ?? 60_000;
     this.staleMessageTimeoutInMs = options?.staleMessageTimeoutInMs ?? 60_000;
     this.resetStaleMessagesIntervalInMs = options?.resetStaleMessagesIntervalInMs ?? 60_000;
+    this.cleanupSubscriptionsIntervalInMs = options?.cleanupSubscriptionsIntervalInMs ?? 60_000;
     this.scheduledMessagesProcessingIntervalInMs = options?.scheduledMessagesProcessingIntervalInMs ?? 5_000;
+    this.codec = options?.codec;
 
     this.init = (async () => {
       await runMigrations(sql);
@@ -91,27 +123,47 @@ export class PgTransit extends EventEmitter<{
       await this.resetStaleMessages();
     }, this.resetStaleMessagesIntervalInMs);
 
+    this.stopCleanupSubscriptionsLoop = loop(async () => {
+      await this.cleanupSubscriptions();
+    }, this.cleanupSubscriptionsIntervalInMs);
+
     this.stopScheduledMessagesProcessingLoop = loop(async () => {
       await this.processScheduledMessages();
     }, this.scheduledMessagesProcessingIntervalInMs);
   }
 
-  async close(): Promise<void> {
+  /**
+   * Wait for the database migrations to be run.
+   */
+  async waitInit(): Promise<void> {
+    await this.init;
+  }
+
+  /**
+   * Stop background loops and consumers, then close the database connections.
+   *
+   * Pass `timeoutInMs` to bound the wait for messages being processed, see `consumer.stop()`.
+   */
+  async close(options?: StopOptions): Promise<void> {
     this.stopTrimTopicsLoop();
     this.stopResetStaleMessagesLoop();
+    this.stopCleanupSubscriptionsLoop();
     this.stopScheduledMessagesProcessingLoop();
 
-    await Promise.all([...[...this.pendingPromises], ...this.topics.map((topic) => topic.stopConsumers())]);
+    await Promise.all([...[...this.pendingPromises], ...this.topics.map((topic) => topic.stopConsumers(options))]);
 
     await this.sql.end();
   }
 
-  topic<T extends JSONValue>(name: string, options?: TopicOptions): Topic<T> {
+  topic<T extends TData>(name: string, options?: TopicOptions<T>): Topic<T>;
+  topic<T>(name: string, options: TopicOptions<T> & { codec: Codec }): Topic<T>;
+  topic<T>(name: string, options?: TopicOptions<T>): Topic<T> {
     const topic = new Topic<T>(
       {
         sql: this.sql,
         pgTransitInit: this.init,
         name,
+        codec: this.codec,
       },
       options,
     );
@@ -121,12 +173,67 @@ export class PgTransit extends EventEmitter<{
     return topic;
   }
 
+  /**
+   * Get message stats of all topics and subscriptions in the database, including those not declared by this instance.
+   */
+  async getStats(options?: StatsOptions): Promise<PgTransitStats> {
+    return await getStats(this.sql, this.sql`TRUE`, options);
+  }
+
   async trimTopics(): Promise<number> {
-    const promise = (async () => {
+    const promise = traceMaintenance('PgTransit.trimTopics', async () => {
       const counts = await Promise.all(this.topics.map((topic) => topic.trim()));
 
       return counts.reduce((acc, count) => acc + count, 0);
-    })();
+    });
+
+    this.pendingPromises.add(promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.pendingPromises.delete(promise);
+    }
+  }
+
+  /**
+   * Remove completed and failed messages of all subscriptions according to their `removeOnComplete` and `removeOnFail` policies.
+   *
+   * @returns The number of removed messages
+   */
+  async cleanupSubscriptions(): Promise<number> {
+    const promise = traceMaintenance('PgTransit.cleanupSubscriptions', async () => {
+      const subscriptions: Pick<SubscriptionRow, 'id' | 'remove_on_complete' | 'remove_on_fail'>[] = await this.sql`
+        SELECT
+          id,
+          remove_on_complete,
+          remove_on_fail
+        FROM
+          pg_transit_subscriptions
+        WHERE
+          remove_on_complete IS NOT NULL
+          OR remove_on_fail IS NOT NULL
+      `;
+
+      let count = 0;
+
+      for (const subscription of subscriptions) {
+        count += await removeSubscriptionMessages(
+          this.sql,
+          subscription.id,
+          'completed',
+          subscription.remove_on_complete ?? false,
+        );
+        count += await removeSubscriptionMessages(
+          this.sql,
+          subscription.id,
+          'failed',
+          subscription.remove_on_fail ?? false,
+        );
+      }
+
+      return count;
+    });
 
     this.pendingPromises.add(promise);
 
@@ -138,11 +245,17 @@ export class PgTransit extends EventEmitter<{
   }
 
   async resetStaleMessages(): Promise<number> {
-    const promise = (async () => {
+    const promise = traceMaintenance('PgTransit.resetStaleMessages', async () => {
       const staleAt = new Date(Date.now() - this.staleMessageTimeoutInMs);
 
       return await this.sql.begin(async (sql) => {
-        const rows: { message_id: string; subscription_id: string }[] = await sql`
+        const rows: {
+          message_id: string;
+          subscription_id: string;
+          subscription_name: string;
+          topic_name: string;
+          status: 'waiting' | 'failed';
+        }[] = await sql`
           UPDATE pg_transit_subscription_messages
           SET
             status = (
@@ -151,14 +264,27 @@ export class PgTransit extends EventEmitter<{
                 ELSE 'failed'
               END
             )::pg_transit_message_status,
+            finished_at = (
+              CASE
+                WHEN stale_count = 0 THEN NULL
+                ELSE ${new Date()}::TIMESTAMPTZ
+              END
+            ),
             stale_count = stale_count + 1,
             last_heartbeat_at = NULL
+          FROM
+            pg_transit_subscriptions
+            JOIN pg_transit_topics ON pg_transit_topics.id = pg_transit_subscriptions.topic_id
           WHERE
-            status = 'processing'
+            pg_transit_subscriptions.id = pg_transit_subscription_messages.subscription_id
+            AND status = 'processing'
             AND last_heartbeat_at <= ${staleAt}
           RETURNING
             message_id,
-            subscription_id
+            subscription_id,
+            pg_transit_subscription_messages.status,
+            pg_transit_subscriptions.name AS subscription_name,
+            pg_transit_topics.name AS topic_name
         `;
 
         if (rows.length === 0) {
@@ -169,6 +295,8 @@ export class PgTransit extends EventEmitter<{
           this.emit('stale', {
             messageId: row.message_id,
             subscriptionId: row.subscription_id,
+            subscriptionName: row.subscription_name,
+            topicName: row.topic_name,
           });
         });
 
@@ -182,9 +310,19 @@ export class PgTransit extends EventEmitter<{
             id = ANY (${sql.array(subscriptionIds)}::uuid[])
         `;
 
+        // Messages reset as stale too many times are failed
+        await sendDeadLetters(
+          sql,
+          rows
+            .filter((row) => row.status === 'failed')
+            .map((row) => ({ subscriptionId: row.subscription_id, messageId: row.message_id })),
+        );
+
+        await notifySubscriptions(sql, subscriptionIds);
+
         return rows.length;
       });
-    })();
+    });
 
     this.pendingPromises.add(promise);
 
@@ -196,30 +334,39 @@ export class PgTransit extends EventEmitter<{
   }
 
   async processScheduledMessages(): Promise<Message<JSONValue>[]> {
-    const promise = (async () => {
+    const promise = traceMaintenance('PgTransit.processScheduledMessages', async () => {
       const messages: Message<JSONValue>[] = [];
 
       await this.sql.begin(async (sql) => {
-        const rows: ScheduledMessageRow<JSONValue>[] = await sql`
+        const rows: (ScheduledMessageRow & { topic_name: string })[] = await sql`
           SELECT
-            *
+            pg_transit_scheduled_messages.*,
+            pg_transit_topics.name AS topic_name
           FROM
             pg_transit_scheduled_messages
+            JOIN pg_transit_topics ON pg_transit_topics.id = pg_transit_scheduled_messages.topic_id
           WHERE
             next_occurrence_at <= ${new Date()}
             AND (
               repeats IS NULL
               OR repeats_made < repeats
             )
-          FOR UPDATE
-            SKIP LOCKED
+          FOR UPDATE OF
+            pg_transit_scheduled_messages SKIP LOCKED
         `;
 
         for (const row of rows) {
-          const [message] = await insertMessages(this.sql, row.topic_id, [row.data], {
+          // Data is inserted as stored, already encoded by the topic codec
+          const {
+            messages: [message],
+          } = await insertMessages(this.sql, { id: row.topic_id, name: row.topic_name }, [row.data], {
             deliverAt: row.deliver_at ?? undefined,
             deliverInMs: row.deliver_in_ms ?? undefined,
             priority: row.priority ?? undefined,
+            key: row.key ?? undefined,
+            headers: row.headers,
+            handlerTimeoutInMs: row.handler_timeout_in_ms ?? undefined,
+            tx: sql,
           });
 
           messages.push(message!);
@@ -237,7 +384,7 @@ export class PgTransit extends EventEmitter<{
       });
 
       return messages;
-    })();
+    });
 
     this.pendingPromises.add(promise);
 
@@ -250,3 +397,16 @@ export class PgTransit extends EventEmitter<{
 }
 
 patchAsyncMethods(PgTransit.prototype, { doBefore: (instance) => (instance as any).init });
+
+/**
+ * Trace a maintenance task run by the background loops, recording the number of messages it handled.
+ */
+async function traceMaintenance<R extends number | unknown[]>(name: string, fn: () => Promise<R>): Promise<R> {
+  return await withSpan(name, {}, async (span) => {
+    const result = await fn();
+
+    span.setAttribute('pg_transit.message_count', typeof result === 'number' ? result : result.length);
+
+    return result;
+  });
+}
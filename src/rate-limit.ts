@@ -0,0 +1,16 @@
+/**
+ * Throw from a handler when a rate limit is hit, typically on a HTTP 429 response.
+ *
+ * The subscription is throttled for `retryAfterInMs` across all consumers,
+ * and the message is put back to waiting without counting the processing attempt.
+ */
+export class RateLimitError extends Error {
+  readonly retryAfterInMs: number;
+
+  constructor(retryAfterInMs: number, message = `Rate limited, retry after ${retryAfterInMs}ms`) {
+    super(message);
+
+    this.name = 'RateLimitError';
+    this.retryAfterInMs = retryAfterInMs;
+  }
+}
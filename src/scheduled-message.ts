@@ -1,4 +1,6 @@
 import type { JSONValue, Sql } from 'postgres';
+import { decodeMessageData, type Codec } from './codec';
+import type { MessageHeaders } from './message';
 
 export type ScheduledMessageConfig = {
   /**
@@ -16,10 +18,10 @@ export type ScheduledMessageConfig = {
   repeats?: number;
 };
 
-export type ScheduledMessageRow<T extends JSONValue> = {
+export type ScheduledMessageRow = {
   topic_id: string;
   name: string;
-  data: T;
+  data: JSONValue;
   created_at: Date;
   updated_at: Date | null;
   next_occurrence_at: Date;
@@ -27,11 +29,14 @@ export type ScheduledMessageRow<T extends JSONValue> = {
   deliver_in_ms: number | null;
   deliver_at: Date | null;
   priority: number | null;
+  key: string | null;
+  headers: MessageHeaders;
+  handler_timeout_in_ms: number | null;
   repeats: number | null;
   repeats_made: number;
 };
 
-export class ScheduledMessage<T extends JSONValue> {
+export class ScheduledMessage<T = JSONValue> {
   get topicId(): string {
     return this.row.topic_id;
   }
@@ -40,8 +45,9 @@ export class ScheduledMessage<T extends JSONValue> {
     return this.row.name;
   }
 
-  get data(): JSONValue {
-    return this.row.data;
+  private readonly _data: T;
+  get data(): T {
+    return this._data;
   }
 
   get createdAt(): Date {
@@ -72,6 +78,18 @@ export class ScheduledMessage<T extends JSONValue> {
     return this.row.priority ?? undefined;
   }
 
+  get key(): string | undefined {
+    return this.row.key ?? undefined;
+  }
+
+  get headers(): MessageHeaders {
+    return this.row.headers;
+  }
+
+  get handlerTimeoutInMs(): number | undefined {
+    return this.row.handler_timeout_in_ms ?? undefined;
+  }
+
   get repeats(): number | undefined {
     return this.row.repeats ?? undefined;
   }
@@ -82,8 +100,11 @@ export class ScheduledMessage<T extends JSONValue> {
 
   constructor(
     private readonly sql: Sql,
-    private readonly row: ScheduledMessageRow<T>,
-  ) {}
+    private readonly row: ScheduledMessageRow,
+    codec?: Codec,
+  ) {
+    this._data = decodeMessageData(codec, row.data);
+  }
 
   async remove(): Promise<void> {
     await this.sql`
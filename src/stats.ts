@@ -0,0 +1,208 @@
+import type { Fragment, Sql } from 'postgres';
+import type { MessageStatus } from './subscription-message';
+
+export type StatsOptions = {
+  /**
+   * The time window in milliseconds over which the processing rate is computed.
+   *
+   * @default 60_000 // 1 minute
+   */
+  windowInMs?: number;
+};
+
+export type SubscriptionStats = {
+  /** The number of subscription messages per status */
+  counts: Record<MessageStatus, number>;
+
+  /** The number of waiting messages not available yet, because of a delayed delivery or a retry delay. Included in `counts.waiting` */
+  delayed: number;
+
+  /** The age in milliseconds of the oldest waiting message available for consumption, i.e. how far behind consumers are */
+  oldestWaitingMessageAgeInMs?: number;
+
+  /** The number of messages completed or failed per second over the stats window */
+  processingRate: number;
+
+  /** The total number of retries, i.e. processing attempts beyond the first one */
+  retries: number;
+};
+
+export type TopicStats = SubscriptionStats & {
+  /** Stats of each subscription of the topic, by subscription name */
+  subscriptions: Record<string, SubscriptionStats>;
+};
+
+export type PgTransitStats = SubscriptionStats & {
+  /** Stats of each topic, by topic name */
+  topics: Record<string, TopicStats>;
+};
+
+type SubscriptionStatsRow = {
+  topic_name: string;
+  subscription_name: string | null;
+  waiting: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+  oldest_waiting_created_at: Date | null;
+  finished: number;
+  retries: number;
+};
+
+/**
+ * Compute the stats of topics and subscriptions matching the given condition on `pg_transit_topics` and `pg_transit_subscriptions`,
+ * with aggregate queries per subscription.
+ */
+export async function getStats(sql: Sql, condition: Fragment, options?: StatsOptions): Promise<PgTransitStats> {
+  const windowInMs = options?.windowInMs ?? 60_000; // Default to 1 minute
+
+  const now = new Date();
+
+  const rows: SubscriptionStatsRow[] = await sql`
+    SELECT
+      pg_transit_topics.name AS topic_name,
+      pg_transit_subscriptions.name AS subscription_name,
+      COALESCE(counts.waiting, 0) AS waiting,
+      COALESCE(counts.processing, 0) AS processing,
+      COALESCE(counts.completed, 0) AS completed,
+      COALESCE(counts.failed, 0) AS failed,
+      COALESCE(counts.delayed, 0) AS delayed,
+      COALESCE(counts.finished, 0) AS finished,
+      COALESCE(counts.retries, 0) AS retries,
+      oldest_waiting.created_at AS oldest_waiting_created_at
+    FROM
+      pg_transit_topics
+      LEFT JOIN pg_transit_subscriptions ON pg_transit_subscriptions.topic_id = pg_transit_topics.id
+      LEFT JOIN LATERAL (
+        SELECT
+          (
+            COUNT(*) FILTER (
+              WHERE
+                status = 'waiting'
+            )
+          )::INTEGER AS waiting,
+          (
+            COUNT(*) FILTER (
+              WHERE
+                status = 'processing'
+            )
+          )::INTEGER AS processing,
+          (
+            COUNT(*) FILTER (
+              WHERE
+                status = 'completed'
+            )
+          )::INTEGER AS completed,
+          (
+            COUNT(*) FILTER (
+              WHERE
+                status = 'failed'
+            )
+          )::INTEGER AS failed,
+          (
+            COUNT(*) FILTER (
+              WHERE
+                status = 'waiting'
+                AND available_at > ${now}
+            )
+          )::INTEGER AS delayed,
+          (
+            COUNT(*) FILTER (
+              WHERE
+                finished_at >= ${new Date(now.getTime() - windowInMs)}
+            )
+          )::INTEGER AS finished,
+          (SUM(GREATEST(attempts - 1, 0)))::INTEGER AS retries
+        FROM
+          pg_transit_subscription_messages
+        WHERE
+          subscription_id = pg_transit_subscriptions.id
+      ) counts ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT
+          pg_transit_messages.created_at
+        FROM
+          pg_transit_subscription_messages
+          JOIN pg_transit_messages ON pg_transit_messages.id = pg_transit_subscription_messages.message_id
+        WHERE
+          pg_transit_subscription_messages.subscription_id = pg_transit_subscriptions.id
+          AND pg_transit_subscription_messages.status = 'waiting'
+          AND (
+            pg_transit_subscription_messages.available_at IS NULL
+            OR pg_transit_subscription_messages.available_at <= ${now}
+          )
+        ORDER BY
+          pg_transit_subscription_messages.message_id
+        LIMIT
+          1
+      ) oldest_waiting ON TRUE
+    WHERE
+      ${condition}
+    ORDER BY
+      pg_transit_topics.name,
+      pg_transit_subscriptions.name
+  `;
+
+  const stats: PgTransitStats = { ...emptyStats(), topics: {} };
+
+  for (const row of rows) {
+    const topicStats = (stats.topics[row.topic_name] ??= { ...emptyStats(), subscriptions: {} });
+
+    // Topics without subscriptions
+    if (row.subscription_name === null) {
+      continue;
+    }
+
+    const subscriptionStats: SubscriptionStats = {
+      counts: {
+        waiting: row.waiting,
+        processing: row.processing,
+        completed: row.completed,
+        failed: row.failed,
+      },
+      delayed: row.delayed,
+      oldestWaitingMessageAgeInMs: row.oldest_waiting_created_at
+        ? Math.max(now.getTime() - row.oldest_waiting_created_at.getTime(), 0)
+        : undefined,
+      processingRate: row.finished / (windowInMs / 1000),
+      retries: row.retries,
+    };
+
+    topicStats.subscriptions[row.subscription_name] = subscriptionStats;
+
+    addStats(topicStats, subscriptionStats);
+    addStats(stats, subscriptionStats);
+  }
+
+  return stats;
+}
+
+function emptyStats(): SubscriptionStats {
+  return {
+    counts: { waiting: 0, processing: 0, completed: 0, failed: 0 },
+    delayed: 0,
+    oldestWaitingMessageAgeInMs: undefined,
+    processingRate: 0,
+    retries: 0,
+  };
+}
+
+function addStats(target: SubscriptionStats, stats: SubscriptionStats) {
+  target.counts.waiting += stats.counts.waiting;
+  target.counts.processing += stats.counts.processing;
+  target.counts.completed += stats.counts.completed;
+  target.counts.failed += stats.counts.failed;
+  target.delayed += stats.delayed;
+  target.processingRate += stats.processingRate;
+  target.retries += stats.retries;
+
+  // The most lagging subscription gives the lag of the aggregate
+  if (
+    stats.oldestWaitingMessageAgeInMs !== undefined &&
+    (target.oldestWaitingMessageAgeInMs === undefined ||
+      stats.oldestWaitingMessageAgeInMs > target.oldestWaitingMessageAgeInMs)
+  ) {
+    target.oldestWaitingMessageAgeInMs = stats.oldestWaitingMessageAgeInMs;
+  }
+}
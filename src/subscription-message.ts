@@ -1,19 +1,43 @@
 import { EventEmitter } from 'node:events';
-import type { JSONValue, Sql } from 'postgres';
-import type { Subscription } from './subscription';
+import type { JSONValue, Sql, TransactionSql } from 'postgres';
+import { insertMessages, type MessageHeaders } from './message';
+import { notifySubscriptions } from './notifications';
+import type { DeadLetter, Subscription } from './subscription';
+import { validateMessageData, type StandardSchemaV1 } from './validation';
 
 export type MessageStatus = 'waiting' | 'processing' | 'completed' | 'failed';
 
-export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
+/**
+ * The abort reason of a message whose processing was taken away from its consumer,
+ * because it was reset as stale or cancelled with `subscription.cancel()`.
+ */
+export class MessageCancelledError extends Error {
+  constructor(message = 'Message processing was cancelled') {
+    super(message);
+
+    this.name = 'MessageCancelledError';
+  }
+}
+
+export class SubscriptionMessage<T = JSONValue> extends EventEmitter<{
   progress: [message: SubscriptionMessage<T>];
+  completed: [message: SubscriptionMessage<T>];
+  failed: [message: SubscriptionMessage<T>, error: Error];
 }> {
   private readonly sql: Sql;
   private readonly subscription: Subscription<T>;
 
   readonly id: string;
-  readonly data: T;
   readonly createdAt: Date;
 
+  private _data: T;
+  /**
+   * The message data, as output by the topic schema when validated by the consumer.
+   */
+  get data(): T {
+    return this._data;
+  }
+
   private _status: MessageStatus;
   get status(): MessageStatus {
     return this._status;
@@ -38,6 +62,14 @@ export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
     return this._errorStack;
   }
 
+  private _finishedAt?: Date;
+  /**
+   * When the message was completed or failed without attempts left.
+   */
+  get finishedAt(): Date | undefined {
+    return this._finishedAt;
+  }
+
   private _lastHeartbeatAt?: Date;
   get lastHeartbeatAt(): Date | undefined {
     return this._lastHeartbeatAt;
@@ -45,13 +77,34 @@ export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
 
   readonly priority?: number;
 
+  readonly key?: string;
+
+  readonly headers: MessageHeaders;
+
+  readonly handlerTimeoutInMs?: number;
+
   private _progress?: JSONValue;
   get progress(): JSONValue | undefined {
     return this._progress;
   }
 
+  private readonly abortController = new AbortController();
+  /**
+   * Aborted when the message processing should stop: the consumer is stopped, the handler timed out, or the message is reset as stale or cancelled.
+   *
+   * Pass it to cancellable operations in handlers, like `fetch(url, { signal: message.signal })`.
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
   readonly staleCount: number;
 
+  /**
+   * The number of times the message was delivered to consumers, including deliveries released or reset as stale.
+   */
+  readonly deliveryCount: number;
+
   constructor(props: {
     sql: Sql;
     subscription: Subscription<T>;
@@ -62,60 +115,95 @@ export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
     attempts: number;
     availableAt: Date | null;
     errorStack: string | null;
+    finishedAt: Date | null;
     lastHeartbeatAt: Date | null;
     priority: number | null;
+    key: string | null;
+    headers: MessageHeaders;
+    handlerTimeoutInMs: number | null;
     progress: JSONValue | null;
     staleCount: number;
+    deliveryCount: number;
   }) {
     super();
 
     this.sql = props.sql;
     this.subscription = props.subscription;
     this.id = props.id;
-    this.data = props.data;
+    this._data = props.data;
     this.createdAt = props.createdAt;
     this._status = props.status;
     this._attempts = props.attempts;
     this._availableAt = props.availableAt ?? undefined;
     this._errorStack = props.errorStack ?? undefined;
+    this._finishedAt = props.finishedAt ?? undefined;
     this._lastHeartbeatAt = props.lastHeartbeatAt ?? undefined;
     this.priority = props.priority ?? undefined;
+    this.key = props.key ?? undefined;
+    this.headers = props.headers;
+    this.handlerTimeoutInMs = props.handlerTimeoutInMs ?? undefined;
     this._progress = props.progress ?? undefined;
     this.staleCount = props.staleCount;
+    this.deliveryCount = props.deliveryCount;
   }
 
-  private async completeMessage(sql: Sql): Promise<void> {
-    await sql`
+  private async completeMessage(sql: Sql): Promise<boolean> {
+    const finishedAt = new Date();
+
+    const { count } = await sql`
       UPDATE pg_transit_subscription_messages
       SET
-        status = 'completed'
+        status = 'completed',
+        finished_at = ${finishedAt}
       WHERE
         subscription_id = ${this.subscription.id}
         AND message_id = ${this.id}
+        AND ${isProcessedBy(sql, this)}
     `;
 
-    this._status = 'completed';
+    if (count > 0) {
+      this._finishedAt = finishedAt;
+    }
+
+    return count > 0;
   }
 
+  /**
+   * Mark the message as completed.
+   *
+   * Does nothing if the message is no longer processed by this instance, aborting its signal with a `MessageCancelledError`.
+   */
   async complete(): Promise<void> {
-    if (this.subscription.consumptionMode === 'sequential') {
-      await this.sql.begin(async (sql) => {
-        await this.completeMessage(sql);
-
-        await sql`
-          UPDATE pg_transit_subscriptions
-          SET
-            processing = FALSE
-          WHERE
-            id = ${this.subscription.id}
-        `;
-      });
-    } else {
-      await this.completeMessage(this.sql);
+    const completed =
+      this.subscription.consumptionMode === 'sequential'
+        ? await this.sql.begin(async (sql) => {
+            if (!(await this.completeMessage(sql))) {
+              return false;
+            }
+
+            await sql`
+              UPDATE pg_transit_subscriptions
+              SET
+                processing = FALSE
+              WHERE
+                id = ${this.subscription.id}
+            `;
+
+            return true;
+          })
+        : await this.completeMessage(this.sql);
+
+    if (!completed) {
+      this.abort(new MessageCancelledError());
+      return;
     }
+
+    this._status = 'completed';
+
+    this.emit('completed', this);
   }
 
-  private async failMessage(sql: Sql, error: Error): Promise<void> {
+  private async failMessage(sql: TransactionSql, error: Error): Promise<boolean> {
     const status = this.attempts >= this.maxAttempts ? 'failed' : 'waiting';
 
     let availableAt: Date | null = null;
@@ -128,25 +216,51 @@ export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
       }
     }
 
-    await sql`
+    const finishedAt = status === 'failed' ? new Date() : null;
+
+    const { count } = await sql`
       UPDATE pg_transit_subscription_messages
       SET
-        ${sql({ status, available_at: availableAt, error_stack: error.stack ?? null })}
+        ${sql({
+        status,
+        available_at: availableAt,
+        error_stack: error.stack ?? null,
+        finished_at: finishedAt,
+      })}
       WHERE
         subscription_id = ${this.subscription.id}
         AND message_id = ${this.id}
+        AND ${isProcessedBy(sql, this)}
     `;
 
+    if (count === 0) {
+      return false;
+    }
+
     this._status = status;
     this._availableAt = availableAt ?? undefined;
     this._errorStack = error.stack ?? undefined;
+    this._finishedAt = finishedAt ?? undefined;
+
+    if (status === 'failed') {
+      await sendDeadLetters(sql, [{ subscriptionId: this.subscription.id, messageId: this.id }]);
+    }
+
+    return true;
   }
 
+  /**
+   * Mark the processing attempt as failed, retrying the message if it has attempts left.
+   *
+   * Does nothing if the message is no longer processed by this instance, aborting its signal with a `MessageCancelledError`.
+   */
   async fail(error: Error) {
-    if (this.subscription.consumptionMode === 'sequential') {
-      await this.sql.begin(async (sql) => {
-        await this.failMessage(sql, error);
+    const failed = await this.sql.begin(async (sql) => {
+      if (!(await this.failMessage(sql, error))) {
+        return false;
+      }
 
+      if (this.subscription.consumptionMode === 'sequential') {
         await sql`
           UPDATE pg_transit_subscriptions
           SET
@@ -154,10 +268,21 @@ export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
           WHERE
             id = ${this.subscription.id}
         `;
-      });
-    } else {
-      await this.failMessage(this.sql, error);
+      }
+
+      return true;
+    });
+
+    if (!failed) {
+      this.abort(new MessageCancelledError());
+      return;
     }
+
+    if (this.status === 'waiting') {
+      await notifySubscriptions(this.sql, [this.subscription.id]);
+    }
+
+    this.emit('failed', this, error);
   }
 
   async retry(): Promise<void> {
@@ -168,6 +293,7 @@ export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
         status: 'waiting',
         available_at: null,
         error_stack: null,
+        finished_at: null,
       })}
       WHERE
         subscription_id = ${this.subscription.id}
@@ -177,23 +303,143 @@ export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
     this._status = 'waiting';
     this._availableAt = undefined;
     this._errorStack = undefined;
+    this._finishedAt = undefined;
+
+    await notifySubscriptions(this.sql, [this.subscription.id]);
+  }
+
+  /**
+   * Put the message back to waiting without counting the current processing attempt.
+   *
+   * Does nothing if the message is no longer processed by this instance, e.g. reset as stale meanwhile.
+   */
+  async release(): Promise<void> {
+    const released = await this.sql.begin(async (sql) => {
+      const { count } = await sql`
+        UPDATE pg_transit_subscription_messages
+        SET
+          status = 'waiting',
+          attempts = GREATEST(attempts - 1, 0)
+        WHERE
+          subscription_id = ${this.subscription.id}
+          AND message_id = ${this.id}
+          AND ${isProcessedBy(sql, this)}
+      `;
+
+      // Already reset as stale or cancelled, the message and the subscription belong to someone else
+      if (count === 0) {
+        return false;
+      }
+
+      if (this.subscription.consumptionMode === 'sequential') {
+        await sql`
+          UPDATE pg_transit_subscriptions
+          SET
+            processing = FALSE
+          WHERE
+            id = ${this.subscription.id}
+        `;
+      }
+
+      return true;
+    });
+
+    if (!released) {
+      return;
+    }
+
+    this._status = 'waiting';
+    this._attempts = Math.max(this._attempts - 1, 0);
+
+    await notifySubscriptions(this.sql, [this.subscription.id]);
+  }
+
+  /**
+   * Validate the message data against the given schema, the data becoming the schema output (transforms, defaults...).
+   *
+   * Throws a `ValidationError` when the data is invalid, leaving it unchanged.
+   */
+  async validate(schema: StandardSchemaV1<unknown, T>): Promise<void> {
+    this._data = await validateMessageData(schema, this._data);
   }
 
+  /**
+   * Abort the message signal, to stop its processing.
+   */
+  abort(reason?: unknown): void {
+    this.abortController.abort(reason);
+  }
+
+  /**
+   * Keep the message alive while processing it.
+   *
+   * Aborts the message signal with a `MessageCancelledError` when the message is no longer processed by this consumer.
+   */
   async heartbeat(): Promise<void> {
     const now = new Date();
 
-    await this.sql`
+    const { count } = await this.sql`
       UPDATE pg_transit_subscription_messages
       SET
         last_heartbeat_at = ${now}
       WHERE
         subscription_id = ${this.subscription.id}
         AND message_id = ${this.id}
+        AND ${isProcessedBy(this.sql, this)}
     `;
 
+    if (count === 0) {
+      this.abort(new MessageCancelledError());
+      return;
+    }
+
     this._lastHeartbeatAt = now;
   }
 
+  /**
+   * Send a heartbeat for many messages of a same subscription at once.
+   *
+   * Aborts the signal of messages no longer processed by this consumer, see `heartbeat()`.
+   */
+  static async heartbeatMany<T>(messages: SubscriptionMessage<T>[]): Promise<void> {
+    const [firstMessage] = messages;
+    if (!firstMessage) {
+      return;
+    }
+
+    const now = new Date();
+
+    const sql = firstMessage.sql;
+
+    const rows: { message_id: string }[] = await sql`
+      UPDATE pg_transit_subscription_messages
+      SET
+        last_heartbeat_at = ${now}
+      FROM
+        UNNEST(
+          ${sql.array(messages.map((message) => message.id))}::uuid[],
+          ${sql.array(messages.map((message) => message.deliveryCount))}::INTEGER[]
+        ) AS processed_messages (message_id, delivery_count)
+      WHERE
+        pg_transit_subscription_messages.subscription_id = ${firstMessage.subscription.id}
+        AND pg_transit_subscription_messages.message_id = processed_messages.message_id
+        AND pg_transit_subscription_messages.status = 'processing'
+        AND pg_transit_subscription_messages.delivery_count = processed_messages.delivery_count
+      RETURNING
+        pg_transit_subscription_messages.message_id
+    `;
+
+    const aliveIds = new Set(rows.map((row) => row.message_id));
+
+    messages.forEach((message) => {
+      if (aliveIds.has(message.id)) {
+        message._lastHeartbeatAt = now;
+      } else {
+        message.abort(new MessageCancelledError());
+      }
+    });
+  }
+
   async updateProgress(value: JSONValue): Promise<void> {
     await this.sql`
       UPDATE pg_transit_subscription_messages
@@ -209,3 +455,91 @@ export class SubscriptionMessage<T extends JSONValue> extends EventEmitter<{
     this.emit('progress', this);
   }
 }
+
+/**
+ * Matches the subscription message row while it is still processed by the given message instance.
+ * Messages delivered again have a different delivery count, even when their attempt was released.
+ */
+function isProcessedBy(sql: Sql, message: SubscriptionMessage<any>) {
+  return sql`
+    status = 'processing'
+    AND delivery_count = ${message.deliveryCount}
+  `;
+}
+
+/**
+ * Publish failed messages to the dead letter topic stored on their subscription, if any.
+ *
+ * Must be called in the transaction marking the messages as failed, so that messages are dead-lettered exactly once.
+ */
+export async function sendDeadLetters(
+  sql: TransactionSql,
+  messages: { subscriptionId: string; messageId: string }[],
+): Promise<void> {
+  if (messages.length === 0) {
+    return;
+  }
+
+  const rows: {
+    dead_letter_topic_id: string;
+    dead_letter_topic_name: string;
+    topic_name: string;
+    subscription_name: string;
+    message_id: string;
+    data: JSONValue;
+    headers: MessageHeaders;
+    error_stack: string | null;
+    attempts: number;
+  }[] = await sql`
+    SELECT
+      dead_letter_topics.id AS dead_letter_topic_id,
+      dead_letter_topics.name AS dead_letter_topic_name,
+      pg_transit_topics.name AS topic_name,
+      pg_transit_subscriptions.name AS subscription_name,
+      pg_transit_messages.id AS message_id,
+      pg_transit_messages.data,
+      pg_transit_messages.headers,
+      pg_transit_subscription_messages.error_stack,
+      pg_transit_subscription_messages.attempts
+    FROM
+      pg_transit_subscription_messages
+      JOIN pg_transit_subscriptions ON pg_transit_subscriptions.id = pg_transit_subscription_messages.subscription_id
+      JOIN pg_transit_topics ON pg_transit_topics.id = pg_transit_subscriptions.topic_id
+      JOIN pg_transit_topics AS dead_letter_topics ON dead_letter_topics.id = pg_transit_subscriptions.dead_letter_topic_id
+      JOIN pg_transit_messages ON pg_transit_messages.id = pg_transit_subscription_messages.message_id
+    WHERE
+      (
+        pg_transit_subscription_messages.subscription_id,
+        pg_transit_subscription_messages.message_id
+      ) IN (
+        SELECT
+          *
+        FROM
+          UNNEST(
+            ${sql.array(messages.map((message) => message.subscriptionId))}::uuid[],
+            ${sql.array(messages.map((message) => message.messageId))}::uuid[]
+          )
+      )
+    ORDER BY
+      pg_transit_messages.id
+  `;
+
+  // One insert per message, as each dead letter keeps the headers of its message
+  for (const row of rows) {
+    await insertMessages<DeadLetter>(
+      sql,
+      { id: row.dead_letter_topic_id, name: row.dead_letter_topic_name },
+      [
+        {
+          messageId: row.message_id,
+          topicName: row.topic_name,
+          subscriptionName: row.subscription_name,
+          data: row.data,
+          errorStack: row.error_stack,
+          attempts: row.attempts,
+        },
+      ],
+      { headers: row.headers, tx: sql },
+    );
+  }
+}
@@ -1,10 +1,21 @@
 import EventEmitter from 'node:events';
-import type { JSONValue, Sql } from 'postgres';
-import { v7 } from 'uuid';
-import { Consumer, type ConsumerOptions } from './consumer';
-import { SubscriptionMessage, type MessageStatus } from './subscription-message';
+import type { JSONValue, Parameter, Sql } from 'postgres';
+import { v7, validate as isUuid } from 'uuid';
+import { decodeMessageData } from './codec';
+import {
+  Consumer,
+  type BatchConsumerOptions,
+  type BatchMessageHandler,
+  type ConsumerOptions,
+  type MessageHandler,
+  type StopOptions,
+} from './consumer';
+import { matchSubscriptionFilter, type MessageHeaders } from './message';
+import { notifySubscriptions } from './notifications';
+import { getStats, type StatsOptions, type SubscriptionStats } from './stats';
+import { MessageCancelledError, SubscriptionMessage, type MessageStatus } from './subscription-message';
 import type { Topic } from './topic';
-import { patchAsyncMethods } from './utils';
+import { isDeepEqual, patchAsyncMethods } from './utils';
 
 export type SubscriptionOptions = {
   /**
@@ -17,6 +28,7 @@ export type SubscriptionOptions = {
    * However strict ordering is not guaranteed because a given consumer may process message many times faster than another consumer.
    * More consumers means more throughput.
    * This is the mode to use for job queue style processing.
+   * Messages sent with a `key` are still processed one at a time and in order among messages sharing the same key.
    *
    * @default 'sequential'
    */
@@ -55,6 +67,151 @@ export type SubscriptionOptions = {
    * @default 0 // No delay
    */
   retryDelayInMs?: number;
+
+  /**
+   * A topic to publish messages to once they have exhausted all their processing attempts.
+   *
+   * The dead letter topic is stored on the subscription, so messages failed by any process, or reset as stale too many times, are dead-lettered.
+   * The dead letter message contains the original message data, as stored in the topic, along with the failure details.
+   * Use `subscription.redrive()` to send dead-lettered messages back to the subscription once the issue is fixed.
+   */
+  deadLetterTopic?: Topic<DeadLetter<any>>;
+
+  /**
+   * Only deliver to the subscription messages matching the filter.
+   *
+   * The filter is evaluated by PostgreSQL when messages are sent, so messages not matching it are never stored for the subscription.
+   *
+   * @default undefined // All messages are delivered
+   */
+  filter?: SubscriptionFilter;
+
+  /**
+   * Limit the number of messages delivered by the subscription over a period of time.
+   *
+   * The limit is enforced by PostgreSQL with a token bucket shared by all consumers of the subscription, across all processes.
+   *
+   * @default undefined // No rate limit
+   */
+  rateLimit?: RateLimit;
+
+  /**
+   * The maximum number of messages processed at once by all consumers of the subscription, across all processes.
+   *
+   * Only applies to parallel subscriptions.
+   *
+   * @default undefined // Only limited by consumers concurrency
+   */
+  globalConcurrency?: number;
+
+  /**
+   * Remove completed messages of the subscription, independently of the topic retention.
+   *
+   * Removal is done by the PgTransit cleanup loop, see `cleanupSubscriptionsIntervalInMs`.
+   *
+   * @default false // Completed messages are removed with the topic messages on trim
+   */
+  removeOnComplete?: RemoveMessagesPolicy;
+
+  /**
+   * Remove failed messages of the subscription.
+   *
+   * Removal is done by the PgTransit cleanup loop, see `cleanupSubscriptionsIntervalInMs`.
+   * Removed failed messages no longer prevent the topic from being trimmed, but cannot be redriven anymore.
+   *
+   * @default false // Failed messages are kept
+   */
+  removeOnFail?: RemoveMessagesPolicy;
+
+  /**
+   * What to do when the subscription already exists with different options.
+   *
+   * - `error` to emit an `error` event and keep the existing options.
+   * - `update` to update the existing subscription in place, see `subscription.update()`. The `startPosition` option is ignored as it only applies on creation.
+   * - `ignore` to silently keep the existing options.
+   *
+   * @default 'error'
+   */
+  onOptionsMismatch?: 'error' | 'update' | 'ignore';
+};
+
+/**
+ * Subscription options that can be updated in place.
+ */
+export type SubscriptionUpdateOptions = Pick<
+  SubscriptionOptions,
+  'consumptionMode' | 'maxAttempts' | 'retryStrategy' | 'retryDelayInMs' | 'removeOnComplete' | 'removeOnFail'
+> & {
+  filter?: SubscriptionFilter | null;
+  rateLimit?: RateLimit | null;
+  globalConcurrency?: number | null;
+};
+
+/**
+ * - `true` to remove all messages.
+ * - A number to keep this count of the latest finished messages.
+ * - An object to keep finished messages up to a count and/or an age in milliseconds, messages exceeding any of the limits are removed.
+ */
+export type RemoveMessagesPolicy = boolean | number | { count?: number; ageInMs?: number };
+
+export type RateLimit = {
+  /** The maximum number of messages delivered per period */
+  max: number;
+
+  /** The period duration in milliseconds */
+  durationInMs: number;
+};
+
+export type SubscriptionFilter = {
+  /**
+   * Only deliver messages whose data contains the given JSON value, using the JSONB containment operator `@>`.
+   *
+   * @example { type: 'order', status: 'paid' }
+   */
+  data?: JSONValue;
+
+  /** Only deliver messages whose headers contain all the given headers */
+  headers?: MessageHeaders;
+
+  /**
+   * Only deliver messages matching the given SQL/JSON path predicate, evaluated against `{ data, headers }` using the `@@` operator.
+   *
+   * @example '$.data.amount > 100 && $.headers.tenantId == "acme"'
+   */
+  jsonPath?: string;
+};
+
+export type DeadLetter<T = JSONValue> = {
+  /** The id of the failed message */
+  messageId: string;
+  topicName: string;
+  subscriptionName: string;
+  data: T;
+  errorStack: string | null;
+  attempts: number;
+};
+
+export type SubscriptionMessagesFilter = {
+  statuses?: MessageStatus[];
+
+  /** Only return messages whose headers contain all the given headers */
+  headers?: MessageHeaders;
+
+  /** Only return the messages with the given ids */
+  ids?: string[];
+
+  /** The maximum number of messages to return */
+  limit?: number;
+
+  /** The number of messages to skip, to paginate with `limit` */
+  offset?: number;
+
+  /**
+   * Return messages from the oldest (`asc`) or from the latest (`desc`).
+   *
+   * @default 'asc'
+   */
+  order?: 'asc' | 'desc';
 };
 
 export type SubscriptionRow = {
@@ -68,10 +225,22 @@ export type SubscriptionRow = {
   max_attempts: number;
   retry_strategy: 'exponential' | 'linear';
   retry_delay: number;
+  filter: SubscriptionFilter | null;
+  rate_limit: RateLimit | null;
+  rate_limit_tokens: number | null;
+  rate_limit_refilled_at: Date | null;
+  throttled_until: Date | null;
+  global_concurrency: number | null;
+  remove_on_complete: RemoveMessagesPolicy | null;
+  remove_on_fail: RemoveMessagesPolicy | null;
+  paused: boolean;
+  dead_letter_topic_id: string | null;
 };
 
-export class Subscription<T extends JSONValue> extends EventEmitter<{
+export class Subscription<T = JSONValue> extends EventEmitter<{
   error: [error: Error];
+  paused: [];
+  resumed: [];
 }> {
   private readonly sql: Sql;
 
@@ -79,120 +248,273 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
 
   private readonly consumers: Consumer<T>[] = [];
 
+  readonly topic: Topic<T>;
+
   readonly name: string;
 
   readonly id!: string;
 
-  readonly consumptionMode!: 'sequential' | 'parallel';
+  private _consumptionMode!: 'sequential' | 'parallel';
+  get consumptionMode(): 'sequential' | 'parallel' {
+    return this._consumptionMode;
+  }
 
   readonly startPosition!: 'earliest' | 'latest';
 
-  readonly maxAttempts!: number;
-  readonly retryStrategy!: 'exponential' | 'linear';
-  readonly retryDelay!: number;
+  private _maxAttempts!: number;
+  get maxAttempts(): number {
+    return this._maxAttempts;
+  }
+
+  private _retryStrategy!: 'exponential' | 'linear';
+  get retryStrategy(): 'exponential' | 'linear' {
+    return this._retryStrategy;
+  }
+
+  private _retryDelay!: number;
+  get retryDelay(): number {
+    return this._retryDelay;
+  }
+
+  readonly deadLetterTopic?: Topic<DeadLetter<any>>;
+
+  private _filter?: SubscriptionFilter;
+  get filter(): SubscriptionFilter | undefined {
+    return this._filter;
+  }
+
+  private _rateLimit?: RateLimit;
+  get rateLimit(): RateLimit | undefined {
+    return this._rateLimit;
+  }
+
+  private _globalConcurrency?: number;
+  get globalConcurrency(): number | undefined {
+    return this._globalConcurrency;
+  }
+
+  private _removeOnComplete!: RemoveMessagesPolicy;
+  get removeOnComplete(): RemoveMessagesPolicy {
+    return this._removeOnComplete;
+  }
+
+  private _removeOnFail!: RemoveMessagesPolicy;
+  get removeOnFail(): RemoveMessagesPolicy {
+    return this._removeOnFail;
+  }
+
+  private _paused = false;
+  /**
+   * Whether the subscription or its topic is paused.
+   *
+   * Reflects the state when the subscription was created, or paused and resumed from this instance.
+   */
+  get isPaused(): boolean {
+    return this._paused || this.topic.isPaused;
+  }
 
   constructor(props: { sql: Sql; topic: Topic<T>; name: string }, options?: SubscriptionOptions) {
     super();
 
     this.sql = props.sql;
+    this.topic = props.topic;
     this.name = props.name;
-    const consumptionMode = options?.consumptionMode ?? 'sequential'; // default to 'sequential'
+    this.deadLetterTopic = options?.deadLetterTopic;
     const startPosition = options?.startPosition ?? 'latest'; // default to 'latest'
-    const maxAttempts = options?.maxAttempts ?? 1; // default to 1
-    const retryStrategy = options?.retryStrategy ?? 'linear'; // default to 'linear'
-    const retryDelay = options?.retryDelayInMs ?? 0; // default to 0
+    const onOptionsMismatch = options?.onOptionsMismatch ?? 'error'; // default to 'error'
+
+    const updatableOptions: Required<SubscriptionUpdateOptions> = {
+      consumptionMode: options?.consumptionMode ?? 'sequential', // default to 'sequential'
+      maxAttempts: options?.maxAttempts ?? 1, // default to 1
+      retryStrategy: options?.retryStrategy ?? 'linear', // default to 'linear'
+      retryDelayInMs: options?.retryDelayInMs ?? 0, // default to 0
+      filter: options?.filter ?? null,
+      rateLimit: options?.rateLimit ?? null,
+      globalConcurrency: options?.globalConcurrency ?? null,
+      removeOnComplete: options?.removeOnComplete ?? false, // default to false
+      removeOnFail: options?.removeOnFail ?? false, // default to false
+    };
+
+    validateSubscriptionOptions(updatableOptions);
 
     this.init = (async () => {
-      await (props.topic as any).init;
+      await Promise.all([(props.topic as any).init, (this.deadLetterTopic as any)?.init]);
+
+      await validateFilter(props.sql, updatableOptions.filter);
+
+      const deadLetterTopicId = this.deadLetterTopic?.id ?? null;
 
-      const [newSub]: [{ id: string }?] = await props.sql`
+      const [newSub]: [SubscriptionRow?] = await props.sql`
         INSERT INTO
           pg_transit_subscriptions ${props.sql({
           id: v7(),
           topic_id: props.topic.id,
           name: props.name,
-          consumption_mode: consumptionMode,
           start_position: startPosition,
-          max_attempts: maxAttempts,
-          retry_strategy: retryStrategy,
-          retry_delay: retryDelay,
+          dead_letter_topic_id: deadLetterTopicId,
+          ...toSubscriptionColumns(props.sql, updatableOptions),
         })}
         ON CONFLICT (topic_id, name) DO NOTHING
         RETURNING
-          id
+          *
       `;
 
       if (newSub) {
         this.id = newSub.id;
-        this.consumptionMode = consumptionMode;
-        this.startPosition = startPosition;
-        this.maxAttempts = maxAttempts;
-        this.retryStrategy = retryStrategy;
-        this.retryDelay = retryDelay;
+        this.startPosition = newSub.start_position;
+        this.applyRow(newSub);
 
         if (startPosition === 'earliest') {
           await props.sql`
             INSERT INTO
               pg_transit_subscription_messages (subscription_id, message_id)
             SELECT
-              ${this.id},
-              id
+              pg_transit_subscriptions.id,
+              pg_transit_messages.id
             FROM
-              pg_transit_messages
+              pg_transit_subscriptions
+              JOIN pg_transit_messages ON pg_transit_messages.topic_id = pg_transit_subscriptions.topic_id
             WHERE
-              topic_id = ${props.topic.id}
+              pg_transit_subscriptions.id = ${this.id}
+              AND ${matchSubscriptionFilter(props.sql)}
           `;
         }
       } else {
-        const [existingSub]: [SubscriptionRow] = await props.sql`
+        let [existingSub]: [SubscriptionRow] = await props.sql`
           SELECT
             *
           FROM
             pg_transit_subscriptions
           WHERE
-            name = ${props.name}
+            topic_id = ${props.topic.id}
+            AND name = ${props.name}
         `;
 
         const mismatchedOptions = [
-          { option: 'consumptionMode', value: consumptionMode, existingValue: existingSub.consumption_mode },
+          {
+            option: 'consumptionMode',
+            value: updatableOptions.consumptionMode,
+            existingValue: existingSub.consumption_mode,
+          },
           { option: 'startPosition', value: startPosition, existingValue: existingSub.start_position },
-          { option: 'maxAttempts', value: maxAttempts, existingValue: existingSub.max_attempts },
-          { option: 'retryStrategy', value: retryStrategy, existingValue: existingSub.retry_strategy },
-          { option: 'retryDelay', value: retryDelay, existingValue: existingSub.retry_delay },
-        ].filter(({ value, existingValue }) => value !== existingValue);
+          { option: 'maxAttempts', value: updatableOptions.maxAttempts, existingValue: existingSub.max_attempts },
+          { option: 'retryStrategy', value: updatableOptions.retryStrategy, existingValue: existingSub.retry_strategy },
+          { option: 'retryDelay', value: updatableOptions.retryDelayInMs, existingValue: existingSub.retry_delay },
+          { option: 'filter', value: updatableOptions.filter, existingValue: existingSub.filter },
+          { option: 'rateLimit', value: updatableOptions.rateLimit, existingValue: existingSub.rate_limit },
+          {
+            option: 'globalConcurrency',
+            value: updatableOptions.globalConcurrency,
+            existingValue: existingSub.global_concurrency,
+          },
+          {
+            option: 'removeOnComplete',
+            value: updatableOptions.removeOnComplete,
+            existingValue: existingSub.remove_on_complete ?? false,
+          },
+          {
+            option: 'removeOnFail',
+            value: updatableOptions.removeOnFail,
+            existingValue: existingSub.remove_on_fail ?? false,
+          },
+        ]
+          .filter(({ value, existingValue }) => !isDeepEqual(value, existingValue))
+          // The start position only applies on creation, so it can't be updated
+          .filter(({ option }) => onOptionsMismatch !== 'update' || option !== 'startPosition');
+
+        if (mismatchedOptions.length > 0 && onOptionsMismatch === 'update') {
+          existingSub = await updateSubscriptionRow(props.sql, existingSub.id, updatableOptions);
+        }
 
-        if (mismatchedOptions.length > 0) {
+        // The dead letter topic is stored for all processes to dead-letter messages failed by any of them
+        if (deadLetterTopicId !== null && existingSub.dead_letter_topic_id !== deadLetterTopicId) {
+          [existingSub] = await props.sql`
+            UPDATE pg_transit_subscriptions
+            SET
+              dead_letter_topic_id = ${deadLetterTopicId}
+            WHERE
+              id = ${existingSub.id}
+            RETURNING
+              *
+          `;
+        }
+
+        if (mismatchedOptions.length > 0 && onOptionsMismatch === 'error') {
           const mismatchedDescriptions = mismatchedOptions
-            .map(({ option, existingValue }) => `${option}: ${existingValue}`)
+            .map(
+              ({ option, existingValue }) =>
+                `${option}: ${typeof existingValue === 'object' && existingValue !== null ? JSON.stringify(existingValue) : existingValue}`,
+            )
             .join(', ');
 
           const error = new Error(
-            `Subscription "${props.name}" on topic ${props.topic.name} already exists with different options (${mismatchedDescriptions}). If you want to change the options, please remove the subscription first.`,
+            `Subscription "${props.name}" on topic ${props.topic.name} already exists with different options (${mismatchedDescriptions}). If you want to change the options, use the \`onOptionsMismatch: 'update'\` option or \`subscription.update()\`.`,
           );
 
           this.emit('error', error);
         }
 
         this.id = existingSub.id;
-        this.consumptionMode = existingSub.consumption_mode;
         this.startPosition = existingSub.start_position;
-        this.maxAttempts = existingSub.max_attempts;
-        this.retryStrategy = existingSub.retry_strategy;
-        this.retryDelay = existingSub.retry_delay;
+        this.applyRow(existingSub);
       }
     })();
   }
 
+  private applyRow(row: SubscriptionRow) {
+    this._consumptionMode = row.consumption_mode;
+    this._maxAttempts = row.max_attempts;
+    this._retryStrategy = row.retry_strategy;
+    this._retryDelay = row.retry_delay;
+    this._filter = row.filter ?? undefined;
+    this._rateLimit = row.rate_limit ?? undefined;
+    this._globalConcurrency = row.global_concurrency ?? undefined;
+    this._removeOnComplete = row.remove_on_complete ?? false;
+    this._removeOnFail = row.remove_on_fail ?? false;
+    this._paused = row.paused;
+  }
+
+  /**
+   * Update the subscription options in place, keeping its messages.
+   *
+   * Only given options are updated, set `filter`, `rateLimit` or `globalConcurrency` to `null` to remove them.
+   * Messages in flight are not interrupted. When switching to `sequential` mode, the next message is only delivered once all messages in flight are done.
+   * Subscription instances of other processes keep their previous options until they are created again.
+   */
+  async update(options: SubscriptionUpdateOptions): Promise<void> {
+    validateSubscriptionOptions(options);
+
+    await validateFilter(this.sql, options.filter);
+
+    if (Object.keys(toSubscriptionColumns(this.sql, options)).length === 0) {
+      return;
+    }
+
+    this.applyRow(await updateSubscriptionRow(this.sql, this.id, options));
+  }
+
   async waitInit(): Promise<void> {
     await this.init;
   }
 
-  async stopConsumers(): Promise<void> {
-    await Promise.all(this.consumers.map((consumer) => consumer.stop()));
+  // Not async so it does not wait for the subscription init, and closing does not fail on subscriptions failing to initialize
+  stopConsumers(options?: StopOptions): Promise<void> {
+    return Promise.all(this.consumers.map((consumer) => consumer.stop(options))).then(() => {});
   }
 
-  consume(handler: (message: SubscriptionMessage<T>) => void | Promise<void>, options?: ConsumerOptions): Consumer<T> {
-    const consumer = new Consumer({ subscription: this, handler, options });
+  consume(handler: MessageHandler<T>, options?: ConsumerOptions): Consumer<T> {
+    const consumer = new Consumer({ sql: this.sql, subscription: this, handler, options });
+
+    this.consumers.push(consumer);
+
+    return consumer;
+  }
+
+  /**
+   * Consume messages in batches of up to `maxBatchSize` messages, for handlers that are more efficient on many messages at once like bulk inserts.
+   */
+  consumeBatch(handler: BatchMessageHandler<T>, options?: BatchConsumerOptions): Consumer<T> {
+    const consumer = new Consumer({ sql: this.sql, subscription: this, batchHandler: handler, options });
 
     this.consumers.push(consumer);
 
@@ -204,32 +526,127 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
       throw new Error('Count must be greater than 0');
     }
 
-    return await this.sql.begin(async (sql) => {
-      if (this.consumptionMode === 'sequential') {
-        const [subscription]: [{ processing: boolean }] = await sql`
+    const messages = await this.sql.begin(async (sql) => {
+      const now = new Date();
+
+      // Parallel deliveries share the lock so they don't block each other, unless the subscription state is updated on delivery
+      const exclusiveLock =
+        this.consumptionMode === 'sequential' || this.rateLimit !== undefined || this.globalConcurrency !== undefined;
+
+      // Options are read from the locked subscription, as they may have been updated by another process
+      const [subscription]: [
+        Pick<
+          SubscriptionRow,
+          | 'consumption_mode'
+          | 'processing'
+          | 'rate_limit'
+          | 'rate_limit_tokens'
+          | 'rate_limit_refilled_at'
+          | 'throttled_until'
+          | 'global_concurrency'
+        > & {
+          has_processing_messages: boolean;
+        },
+      ] = await sql`
+        SELECT
+          consumption_mode,
+          processing,
+          rate_limit,
+          rate_limit_tokens,
+          rate_limit_refilled_at,
+          throttled_until,
+          global_concurrency,
+          EXISTS (
+            SELECT
+              1
+            FROM
+              pg_transit_subscription_messages
+            WHERE
+              subscription_id = ${this.id}
+              AND status = 'processing'
+          ) AS has_processing_messages
+        FROM
+          pg_transit_subscriptions
+        WHERE
+          id = ${this.id} ${exclusiveLock ? sql`FOR UPDATE` : sql`FOR SHARE`}
+      `;
+
+      const consumptionMode = subscription.consumption_mode;
+      const rateLimit = subscription.rate_limit ?? undefined;
+      const globalConcurrency = subscription.global_concurrency ?? undefined;
+
+      this._consumptionMode = consumptionMode;
+      this._rateLimit = rateLimit;
+      this._globalConcurrency = globalConcurrency;
+
+      const limitGlobalConcurrency = consumptionMode === 'parallel' && globalConcurrency !== undefined;
+
+      // Switched by another process to options updating the subscription on delivery, retry with an exclusive lock
+      if (!exclusiveLock && (consumptionMode === 'sequential' || rateLimit || limitGlobalConcurrency)) {
+        return undefined;
+      }
+
+      // Messages may still be processing in parallel after switching from parallel to sequential mode
+      if (consumptionMode === 'sequential' && (subscription.processing || subscription.has_processing_messages)) {
+        return [];
+      }
+
+      if (subscription.throttled_until && subscription.throttled_until > now) {
+        return [];
+      }
+
+      let limit = consumptionMode === 'sequential' ? 1 : count;
+
+      if (limitGlobalConcurrency) {
+        const [{ processing_count }]: [{ processing_count: number }] = await sql`
           SELECT
-            processing
+            COUNT(*)::INTEGER AS processing_count
           FROM
-            pg_transit_subscriptions
+            pg_transit_subscription_messages
           WHERE
-            id = ${this.id}
-          FOR UPDATE
+            subscription_id = ${this.id}
+            AND status = 'processing'
         `;
 
-        if (subscription.processing) {
+        limit = Math.min(limit, globalConcurrency! - processing_count);
+
+        if (limit <= 0) {
+          return [];
+        }
+      }
+
+      // Token bucket refilled continuously at a rate of `max` tokens per `durationInMs`
+      let rateLimitTokens: number | undefined;
+      if (rateLimit) {
+        const { max, durationInMs } = rateLimit;
+
+        const { rate_limit_tokens: tokens, rate_limit_refilled_at: refilledAt } = subscription;
+
+        rateLimitTokens =
+          tokens === null || refilledAt === null
+            ? max // Full bucket on first delivery
+            : Math.min(max, tokens + ((now.getTime() - refilledAt.getTime()) * max) / durationInMs);
+
+        limit = Math.min(limit, Math.floor(rateLimitTokens));
+
+        if (limit <= 0) {
           return [];
         }
       }
 
       const messages: {
         id: string;
-        data: T;
+        data: JSONValue;
         created_at: Date;
         attempts: number;
         available_at: Date | null;
         error_stack: string | null;
         priority: number | null;
+        key: string | null;
+        headers: MessageHeaders;
+        handler_timeout_in_ms: number | null;
         stale_count: number;
+        delivery_count: number;
       }[] = await sql`
         SELECT
           pg_transit_messages.id,
@@ -239,7 +656,11 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
           pg_transit_subscription_messages.available_at,
           pg_transit_subscription_messages.error_stack,
           pg_transit_messages.priority,
-          pg_transit_subscription_messages.stale_count
+          pg_transit_messages.key,
+          pg_transit_messages.headers,
+          pg_transit_messages.handler_timeout_in_ms,
+          pg_transit_subscription_messages.stale_count,
+          pg_transit_subscription_messages.delivery_count
         FROM
           pg_transit_subscription_messages
           LEFT JOIN pg_transit_messages ON pg_transit_subscription_messages.message_id = pg_transit_messages.id
@@ -248,22 +669,65 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
           AND status = 'waiting'
           AND (
             available_at IS NULL
-            OR available_at <= ${new Date()}
+            OR available_at <= ${now}
           )
+          AND NOT EXISTS (
+            SELECT
+              1
+            FROM
+              pg_transit_subscriptions
+              JOIN pg_transit_topics ON pg_transit_topics.id = pg_transit_subscriptions.topic_id
+            WHERE
+              pg_transit_subscriptions.id = ${this.id}
+              AND (
+                pg_transit_subscriptions.paused
+                OR pg_transit_topics.paused
+                OR pg_transit_subscriptions.throttled_until > ${now}
+              )
+          ) ${consumptionMode === 'parallel'
+          ? sql`
+              AND (
+                pg_transit_messages.key IS NULL
+                OR NOT EXISTS (
+                  SELECT
+                    1
+                  FROM
+                    pg_transit_subscription_messages AS previous_subscription_messages
+                    JOIN pg_transit_messages AS previous_messages ON previous_subscription_messages.message_id = previous_messages.id
+                  WHERE
+                    previous_subscription_messages.subscription_id = ${this.id}
+                    AND previous_subscription_messages.status IN ('waiting', 'processing')
+                    AND previous_messages.topic_id = pg_transit_messages.topic_id
+                    AND previous_messages.key = pg_transit_messages.key
+                    AND previous_messages.id < pg_transit_messages.id
+                )
+              )
+            `
+          : sql``}
         ORDER BY
           pg_transit_messages.priority ASC NULLS LAST,
           pg_transit_messages.id
         FOR UPDATE OF
           pg_transit_subscription_messages SKIP LOCKED
         LIMIT
-          ${this.consumptionMode === 'sequential' ? 1 : count}
+          ${limit}
       `;
 
       if (messages.length === 0) {
         return [];
       }
 
-      if (this.consumptionMode === 'sequential') {
+      if (rateLimitTokens !== undefined) {
+        await sql`
+          UPDATE pg_transit_subscriptions
+          SET
+            ${sql({ rate_limit_tokens: rateLimitTokens - messages.length, rate_limit_refilled_at: now })}
+          WHERE
+            id = ${this.id}
+        `;
+      }
+
+      if (consumptionMode === 'sequential') {
         await sql`
           UPDATE pg_transit_subscriptions
           SET
@@ -282,6 +746,7 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
         SET
           status = 'processing',
           attempts = attempts + 1,
+          delivery_count = delivery_count + 1,
           last_heartbeat_at = ${lastHeartbeatAt},
           progress = NULL
         WHERE
@@ -295,34 +760,78 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
             sql: this.sql,
             subscription: this,
             id: message.id,
-            data: message.data,
+            data: decodeMessageData<T>(this.topic.codec, message.data),
             createdAt: message.created_at,
             status: 'processing',
             attempts: message.attempts + 1,
             availableAt: message.available_at,
             errorStack: message.error_stack,
+            finishedAt: null,
             lastHeartbeatAt,
             priority: message.priority,
+            key: message.key,
+            headers: message.headers,
+            handlerTimeoutInMs: message.handler_timeout_in_ms,
             progress: null,
             staleCount: message.stale_count,
+            deliveryCount: message.delivery_count + 1,
           }),
       );
     });
+
+    return messages ?? (await this.getNextMessages(count));
   }
 
-  async getMessages(...statuses: MessageStatus[]): Promise<SubscriptionMessage<T>[]> {
+  /**
+   * Stop delivering messages to all consumers of the subscription for the given delay, across all processes.
+   *
+   * The rate limit token bucket, if any, is emptied and only starts refilling once the delay has elapsed.
+   */
+  async throttle(delayInMs: number): Promise<void> {
+    const throttledUntil = new Date(Date.now() + delayInMs);
+
+    await this.sql`
+      UPDATE pg_transit_subscriptions
+      SET
+        ${this.sql({ throttled_until: throttledUntil, rate_limit_tokens: 0, rate_limit_refilled_at: throttledUntil })}
+      WHERE
+        id = ${this.id}
+    `;
+  }
+
+  /**
+   * Get message stats of the subscription: counts per status, lag and processing rate.
+   */
+  async getStats(options?: StatsOptions): Promise<SubscriptionStats> {
+    const stats = await getStats(this.sql, this.sql`pg_transit_subscriptions.id = ${this.id}`, options);
+
+    return stats.topics[this.topic.name]!.subscriptions[this.name]!;
+  }
+
+  getMessages(filter: SubscriptionMessagesFilter): Promise<SubscriptionMessage<T>[]>;
+  getMessages(...statuses: MessageStatus[]): Promise<SubscriptionMessage<T>[]>;
+  async getMessages(...args: [SubscriptionMessagesFilter] | MessageStatus[]): Promise<SubscriptionMessage<T>[]> {
+    const filter: SubscriptionMessagesFilter =
+      typeof args[0] === 'object' ? args[0] : { statuses: args as MessageStatus[] };
+    const statuses = filter.statuses ?? [];
+
     const messages: {
       id: string;
-      data: T;
+      data: JSONValue;
       created_at: Date;
       status: MessageStatus;
       attempts: number;
       available_at: Date | null;
       error_stack: string | null;
+      finished_at: Date | null;
       last_heartbeat_at: Date | null;
       priority: number | null;
+      key: string | null;
+      headers: MessageHeaders;
+      handler_timeout_in_ms: number | null;
       progress: JSONValue | null;
       stale_count: number;
+      delivery_count: number;
     }[] = await this.sql`
       SELECT
         pg_transit_messages.id,
@@ -332,10 +841,15 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
         pg_transit_subscription_messages.attempts,
         pg_transit_subscription_messages.available_at,
         pg_transit_subscription_messages.error_stack,
+        pg_transit_subscription_messages.finished_at,
         pg_transit_subscription_messages.last_heartbeat_at,
         pg_transit_messages.priority,
+        pg_transit_messages.key,
+        pg_transit_messages.headers,
+        pg_transit_messages.handler_timeout_in_ms,
         pg_transit_subscription_messages.progress,
-        pg_transit_subscription_messages.stale_count
+        pg_transit_subscription_messages.stale_count,
+        pg_transit_subscription_messages.delivery_count
       FROM
         pg_transit_subscription_messages
         LEFT JOIN pg_transit_messages ON pg_transit_subscription_messages.message_id = pg_transit_messages.id
@@ -346,9 +860,23 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
               ${this.sql.array(statuses)}::pg_transit_message_status[]
             )
           `
+        : this.sql``} ${filter.headers
+        ? this.sql` AND pg_transit_messages.headers @> ${this.sql.json(filter.headers)} `
+        : this.sql``} ${filter.ids
+        ? this.sql` AND pg_transit_messages.id = ANY (${this.sql.array(filter.ids)}::uuid[]) `
         : this.sql``}
       ORDER BY
-        pg_transit_messages.id
+        pg_transit_messages.id ${filter.order === 'desc' ? this.sql`DESC` : this.sql``} ${filter.limit === undefined
+        ? this.sql``
+        : this.sql`
+            LIMIT
+              ${filter.limit}
+          `} ${filter.offset === undefined
+        ? this.sql``
+        : this.sql`
+            OFFSET
+              ${filter.offset}
+          `}
     `;
 
     return messages.map(
@@ -357,20 +885,249 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
           sql: this.sql,
           subscription: this,
           id: message.id,
-          data: message.data,
+          data: decodeMessageData<T>(this.topic.codec, message.data),
           createdAt: message.created_at,
           status: message.status,
           attempts: message.attempts,
           availableAt: message.available_at,
           errorStack: message.error_stack,
+          finishedAt: message.finished_at,
           lastHeartbeatAt: message.last_heartbeat_at,
           priority: message.priority,
+          key: message.key,
+          headers: message.headers,
+          handlerTimeoutInMs: message.handler_timeout_in_ms,
           progress: message.progress,
           staleCount: message.stale_count,
+          deliveryCount: message.delivery_count,
         }),
     );
   }
 
+  /**
+   * Send failed messages back to the subscription for a new round of processing attempts.
+   *
+   * Redrives all failed messages of the subscription when no message id is given.
+   *
+   * @returns The number of redriven messages
+   */
+  async redrive(...messageIds: string[]): Promise<number> {
+    return await this.sql.begin(async (sql) => {
+      const { count } = await sql`
+        UPDATE pg_transit_subscription_messages
+        SET
+          status = 'waiting',
+          attempts = 0,
+          available_at = NULL,
+          error_stack = NULL,
+          stale_count = 0,
+          finished_at = NULL
+        WHERE
+          subscription_id = ${this.id}
+          AND status = 'failed' ${messageIds.length > 0
+          ? sql` AND message_id = ANY (${sql.array(messageIds)}::uuid[]) `
+          : sql``}
+      `;
+
+      if (count > 0) {
+        await notifySubscriptions(sql, [this.id]);
+      }
+
+      return count;
+    });
+  }
+
+  /**
+   * Move the position of the subscription to replay or skip messages retained in the topic.
+   *
+   * - `earliest` to replay all retained messages.
+   * - `latest` to skip all messages not processed yet.
+   * - A date to replay messages sent from this date, and skip earlier ones.
+   * - A message id to replay messages from this message included, and skip earlier ones.
+   *
+   * Messages being processed are left untouched, so seeking is safe while consumers are running.
+   *
+   * @returns The number of messages to be processed from the new position
+   */
+  async seek(options: { to: Date | string | 'earliest' | 'latest' }): Promise<number> {
+    const { to } = options;
+
+    if (typeof to === 'string' && to !== 'earliest' && to !== 'latest' && !isUuid(to)) {
+      throw new Error(`Invalid seek position "${to}", expected earliest, latest, a date or a message id`);
+    }
+
+    return await this.sql.begin(async (sql) => {
+      const fromPosition =
+        to === 'earliest'
+          ? sql`TRUE`
+          : to === 'latest'
+            ? sql`FALSE`
+            : to instanceof Date
+              ? sql`pg_transit_messages.created_at >= ${to}`
+              : sql`pg_transit_messages.id >= ${to}`;
+
+      // Serialize with messages delivery
+      await sql`
+        SELECT
+          id
+        FROM
+          pg_transit_subscriptions
+        WHERE
+          id = ${this.id}
+        FOR UPDATE
+      `;
+
+      const now = new Date();
+
+      // Recreate messages removed from the subscription but still retained in the topic
+      await sql`
+        INSERT INTO
+          pg_transit_subscription_messages (subscription_id, message_id)
+        SELECT
+          pg_transit_subscriptions.id,
+          pg_transit_messages.id
+        FROM
+          pg_transit_subscriptions
+          JOIN pg_transit_messages ON pg_transit_messages.topic_id = pg_transit_subscriptions.topic_id
+        WHERE
+          pg_transit_subscriptions.id = ${this.id}
+          AND ${fromPosition}
+          AND ${matchSubscriptionFilter(sql)}
+        ON CONFLICT DO NOTHING
+      `;
+
+      // Delayed messages stay delayed until their delivery date
+      const { count } = await sql`
+        UPDATE pg_transit_subscription_messages
+        SET
+          status = 'waiting',
+          attempts = 0,
+          available_at = (
+            CASE
+              WHEN GREATEST(pg_transit_messages.deliver_at, available_at) > ${now} THEN GREATEST(pg_transit_messages.deliver_at, available_at)
+              ELSE NULL
+            END
+          ),
+          error_stack = NULL,
+          progress = NULL,
+          stale_count = 0,
+          finished_at = NULL
+        FROM
+          pg_transit_messages
+        WHERE
+          pg_transit_messages.id = pg_transit_subscription_messages.message_id
+          AND subscription_id = ${this.id}
+          AND status <> 'processing'
+          AND ${fromPosition}
+      `;
+
+      await sql`
+        UPDATE pg_transit_subscription_messages
+        SET
+          status = 'completed',
+          finished_at = ${now}
+        FROM
+          pg_transit_messages
+        WHERE
+          pg_transit_messages.id = pg_transit_subscription_messages.message_id
+          AND subscription_id = ${this.id}
+          AND status NOT IN ('processing', 'completed')
+          AND NOT (${fromPosition})
+      `;
+
+      if (count > 0) {
+        await notifySubscriptions(sql, [this.id]);
+      }
+
+      return count;
+    });
+  }
+
+  /**
+   * Cancel waiting or processing messages, marking them as failed without further attempts.
+   *
+   * Signals of the cancelled messages are aborted with a `MessageCancelledError`,
+   * right away for consumers of this instance, and on their next heartbeat for consumers of other processes.
+   *
+   * @returns The number of cancelled messages
+   */
+  async cancel(...messageIds: string[]): Promise<number> {
+    const error = new MessageCancelledError();
+
+    const count = await this.sql.begin(async (sql) => {
+      const { count } = await sql`
+        UPDATE pg_transit_subscription_messages
+        SET
+          ${sql({ status: 'failed', available_at: null, error_stack: error.stack ?? null, finished_at: new Date() })}
+        WHERE
+          subscription_id = ${this.id}
+          AND message_id = ANY (${sql.array(messageIds)}::uuid[])
+          AND status IN ('waiting', 'processing')
+      `;
+
+      if (count > 0 && this.consumptionMode === 'sequential') {
+        await sql`
+          UPDATE pg_transit_subscriptions
+          SET
+            processing = EXISTS (
+              SELECT
+                1
+              FROM
+                pg_transit_subscription_messages
+              WHERE
+                subscription_id = ${this.id}
+                AND status = 'processing'
+            )
+          WHERE
+            id = ${this.id}
+        `;
+
+        await notifySubscriptions(sql, [this.id]);
+      }
+
+      return count;
+    });
+
+    this.consumers.forEach((consumer) => consumer.abortMessages(messageIds, error));
+
+    return count;
+  }
+
+  /**
+   * Stop delivering messages of the subscription to all consumers, across all processes, until resumed.
+   *
+   * Messages keep being sent to the subscription, and messages being processed are not interrupted.
+   */
+  async pause(): Promise<void> {
+    await this.sql`
+      UPDATE pg_transit_subscriptions
+      SET
+        paused = TRUE
+      WHERE
+        id = ${this.id}
+    `;
+
+    this._paused = true;
+
+    this.emit('paused');
+  }
+
+  async resume(): Promise<void> {
+    await this.sql`
+      UPDATE pg_transit_subscriptions
+      SET
+        paused = FALSE
+      WHERE
+        id = ${this.id}
+    `;
+
+    this._paused = false;
+
+    await notifySubscriptions(this.sql, [this.id]);
+
+    this.emit('resumed');
+  }
+
   async remove(): Promise<void> {
     await this.sql`
       DELETE FROM pg_transit_subscriptions
@@ -381,3 +1138,150 @@ export class Subscription<T extends JSONValue> extends EventEmitter<{
 }
 
 patchAsyncMethods(Subscription.prototype, { doBefore: (instance) => (instance as any).init });
+
+function validateSubscriptionOptions(options: SubscriptionUpdateOptions) {
+  if (options.rateLimit && (options.rateLimit.max < 1 || options.rateLimit.durationInMs <= 0)) {
+    throw new Error('Rate limit max must be greater than 0 and duration must be positive');
+  }
+
+  if (options.globalConcurrency !== undefined && options.globalConcurrency !== null && options.globalConcurrency < 1) {
+    throw new Error('Global concurrency must be greater than 0');
+  }
+}
+
+/**
+ * Check the JSON path of a filter is valid before storing it, as an invalid one would fail all sends to the topic.
+ */
+async function validateFilter(sql: Sql, filter: SubscriptionFilter | null | undefined) {
+  if (filter?.jsonPath === undefined) {
+    return;
+  }
+
+  try {
+    await sql`
+      SELECT
+        ${filter.jsonPath}::jsonpath
+    `;
+  } catch (e) {
+    throw new Error(`Invalid subscription filter JSON path "${filter.jsonPath}": ${(e as Error).message}`);
+  }
+}
+
+/** Subscription columns to insert or update, remove policies being sent as JSON parameters */
+type SubscriptionColumns = Partial<Omit<SubscriptionRow, 'remove_on_complete' | 'remove_on_fail'>> & {
+  remove_on_complete?: Parameter | null;
+  remove_on_fail?: Parameter | null;
+};
+
+function toSubscriptionColumns(sql: Sql, options: SubscriptionUpdateOptions): SubscriptionColumns {
+  const columns: SubscriptionColumns = {};
+
+  if (options.consumptionMode !== undefined) {
+    columns.consumption_mode = options.consumptionMode;
+
+    if (options.consumptionMode === 'parallel') {
+      columns.processing = false; // The processing lock is only used in sequential mode
+    }
+  }
+  if (options.maxAttempts !== undefined) {
+    columns.max_attempts = options.maxAttempts;
+  }
+  if (options.retryStrategy !== undefined) {
+    columns.retry_strategy = options.retryStrategy;
+  }
+  if (options.retryDelayInMs !== undefined) {
+    columns.retry_delay = options.retryDelayInMs;
+  }
+  if (options.filter !== undefined) {
+    columns.filter = options.filter;
+  }
+  if (options.rateLimit !== undefined) {
+    columns.rate_limit = options.rateLimit;
+  }
+  if (options.globalConcurrency !== undefined) {
+    columns.global_concurrency = options.globalConcurrency;
+  }
+  if (options.removeOnComplete !== undefined) {
+    columns.remove_on_complete = options.removeOnComplete === false ? null : sql.json(options.removeOnComplete);
+  }
+  if (options.removeOnFail !== undefined) {
+    columns.remove_on_fail = options.removeOnFail === false ? null : sql.json(options.removeOnFail);
+  }
+
+  return columns;
+}
+
+async function updateSubscriptionRow(
+  sql: Sql,
+  subscriptionId: string,
+  options: SubscriptionUpdateOptions,
+): Promise<SubscriptionRow> {
+  const [row]: [SubscriptionRow] = await sql`
+    UPDATE pg_transit_subscriptions
+    SET
+      ${sql(toSubscriptionColumns(sql, options))}
+    WHERE
+      id = ${subscriptionId}
+    RETURNING
+      *
+  `;
+
+  // New options may allow delivering more messages right away
+  await notifySubscriptions(sql, [subscriptionId]);
+
+  return row;
+}
+
+/**
+ * Remove finished messages of a subscription according to a remove policy.
+ *
+ * @returns The number of removed messages
+ */
+export async function removeSubscriptionMessages(
+  sql: Sql,
+  subscriptionId: string,
+  status: 'completed' | 'failed',
+  policy: RemoveMessagesPolicy,
+): Promise<number> {
+  if (policy === false) {
+    return 0;
+  }
+
+  const { count, ageInMs } = policy === true ? { count: 0 } : typeof policy === 'number' ? { count: policy } : policy;
+
+  if (count === undefined && ageInMs === undefined) {
+    return 0;
+  }
+
+  const finishedBefore = ageInMs === undefined ? undefined : new Date(Date.now() - ageInMs);
+
+  const result = await sql`
+    DELETE FROM pg_transit_subscription_messages
+    WHERE
+      subscription_id = ${subscriptionId}
+      AND status = ${status}
+      AND (
+        ${count !== undefined
+      ? sql`
+          message_id NOT IN (
+            SELECT
+              message_id
+            FROM
+              pg_transit_subscription_messages
+            WHERE
+              subscription_id = ${subscriptionId}
+              AND status = ${status}
+            ORDER BY
+              finished_at DESC NULLS LAST,
+              message_id DESC
+            LIMIT
+              ${count}
+          )
+        `
+      : sql`FALSE`}
+        OR ${finishedBefore ? sql`finished_at < ${finishedBefore}` : sql`FALSE`}
+      )
+  `;
+
+  return result.count;
+}
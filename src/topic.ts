@@ -2,12 +2,17 @@ import CronExpressionParser from 'cron-parser';
 import EventEmitter from 'node:events';
 import type { JSONValue, Sql } from 'postgres';
 import { v7 } from 'uuid';
-import { insertMessages, Message, type MessageOptions, type MessageRow } from './message';
+import { encodeMessageData, type Codec } from './codec';
+import type { StopOptions } from './consumer';
+import { insertMessages, Message, type MessageHeaders, type MessageOptions, type MessageRow } from './message';
+import { notifyTopicSubscriptions } from './notifications';
 import { ScheduledMessage, type ScheduledMessageConfig, type ScheduledMessageRow } from './scheduled-message';
+import { getStats, type StatsOptions, type TopicStats } from './stats';
 import { Subscription, type SubscriptionOptions } from './subscription';
 import { patchAsyncMethods } from './utils';
+import { validateMessageData, type StandardSchemaV1 } from './validation';
 
-export type TopicOptions = {
+export type TopicOptions<T = JSONValue> = {
   /**
    * The maximum number of acknowledged messages to keep in the topic.
    * Acknowledged messages are those that have been consumed by all the subscriptions attached to the topic.
@@ -17,15 +22,69 @@ export type TopicOptions = {
    * - Set `1000` to keep `1000` acknowledged messages maximum.
    * - Set `Infinity` to keep all acknowledged messages indefinitely.
    *
-   * @default 0
+   * @default 0 // `Infinity` when `maxMessageAgeInMs` is set
    */
   maxMessagesRetention?: number;
+
+  /**
+   * The maximum age in milliseconds of acknowledged messages to keep in the topic.
+   *
+   * Can be combined with `maxMessagesRetention`, acknowledged messages are then removed as soon as one of the limits is exceeded.
+   * Unacknowledged messages are never removed, whatever their age.
+   *
+   * @example 30 * 24 * 60 * 60 * 1000 // Keep 30 days of messages
+   * @default undefined // No age limit
+   */
+  maxMessageAgeInMs?: number;
+
+  /**
+   * A Standard Schema compatible schema (zod, valibot, arktype...) to validate message data against.
+   *
+   * Data is validated before being sent or scheduled, throwing a `ValidationError` if invalid.
+   * Consumers can also validate messages before handling them using the `validate` consumer option.
+   *
+   * @default undefined // No runtime validation
+   */
+  schema?: StandardSchemaV1<unknown, T>;
+
+  /**
+   * A codec to convert message data to and from the JSON stored in PostgreSQL, to send data that is not plain JSON.
+   *
+   * Use the built-in `extendedJsonCodec` to preserve `Date`, `bigint`, `Map`, `Set` and `Buffer` values.
+   * Subscription filters apply to the encoded data.
+   *
+   * @default PgTransitOptions.codec
+   */
+  codec?: Codec;
+};
+
+export type TopicMessagesFilter = {
+  /** Only return messages whose headers contain all the given headers */
+  headers?: MessageHeaders;
+
+  /** Only return the messages with the given ids */
+  ids?: string[];
+
+  /** The maximum number of messages to return */
+  limit?: number;
+
+  /** The number of messages to skip, to paginate with `limit` */
+  offset?: number;
+
+  /**
+   * Return messages from the oldest (`asc`) or from the latest (`desc`).
+   *
+   * @default 'asc'
+   */
+  order?: 'asc' | 'desc';
 };
 
-export class Topic<T extends JSONValue> extends EventEmitter<{
+export class Topic<T = JSONValue> extends EventEmitter<{
   send: [message: Message<T>];
   schedule: [message: ScheduledMessage<T>];
   trim: [count: number];
+  paused: [];
+  resumed: [];
 }> {
   private readonly sql: Sql;
 
@@ -39,14 +98,39 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
 
   readonly maxMessagesRetention: number;
 
-  constructor(props: { sql: Sql; pgTransitInit: Promise<void>; name: string }, options?: TopicOptions) {
+  readonly maxMessageAgeInMs?: number;
+
+  readonly schema?: StandardSchemaV1<unknown, T>;
+
+  readonly codec?: Codec;
+
+  private _paused = false;
+  /**
+   * Whether the topic is paused.
+   *
+   * Reflects the state when the topic was created, or paused and resumed from this instance.
+   */
+  get isPaused(): boolean {
+    return this._paused;
+  }
+
+  constructor(
+    props: { sql: Sql; pgTransitInit: Promise<void>; name: string; codec?: Codec },
+    options?: TopicOptions<T>,
+  ) {
     super();
 
     this.sql = props.sql;
 
     this.name = props.name;
 
-    this.maxMessagesRetention = options?.maxMessagesRetention ?? 0;
+    this.maxMessageAgeInMs = options?.maxMessageAgeInMs;
+
+    this.maxMessagesRetention = options?.maxMessagesRetention ?? (this.maxMessageAgeInMs === undefined ? 0 : Infinity); // Default to 0, or only limit by age when set
+
+    this.schema = options?.schema;
+
+    this.codec = options?.codec ?? props.codec;
 
     this.init = (async () => {
       await props.pgTransitInit;
@@ -56,13 +140,15 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
           pg_transit_topics ${props.sql({ id: v7(), name: props.name })}
         ON CONFLICT (name) DO NOTHING
         RETURNING
-          id
+          id,
+          paused
       `;
 
       if (!row) {
         [row] = await props.sql`
           SELECT
-            id
+            id,
+            paused
           FROM
             pg_transit_topics
           WHERE
@@ -71,6 +157,7 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
       }
 
       this.id = row!['id'];
+      this._paused = row!['paused'];
     })();
   }
 
@@ -86,41 +173,65 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
     return subscription;
   }
 
-  async stopConsumers(): Promise<void> {
-    await Promise.all(this.subscriptions.map((subscription) => subscription.stopConsumers()));
+  async stopConsumers(options?: StopOptions): Promise<void> {
+    await Promise.all(this.subscriptions.map((subscription) => subscription.stopConsumers(options)));
   }
 
-  async send(data: T, options?: MessageOptions): Promise<Message<T>> {
-    const [message] = await insertMessages(this.sql, this.id, [data], options);
-
-    this.emit('send', message!);
+  async send<TTypes extends Record<string, unknown> = {}>(
+    data: T,
+    options?: MessageOptions<T, TTypes>,
+  ): Promise<Message<T>> {
+    const {
+      messages: [message],
+      insertedMessages,
+    } = await insertMessages(
+      this.sql,
+      this,
+      [this.schema ? await validateMessageData(this.schema, data) : data],
+      options,
+      this.codec,
+    );
+
+    // Deduplicated messages were already sent, and messages sent in a transaction may still be rolled back
+    if (insertedMessages.length > 0 && !options?.tx) {
+      this.emit('send', message!);
+    }
 
     return message!;
   }
 
-  async sendBulk(data: T[], options?: MessageOptions): Promise<Message<T>[]> {
-    const messages = await insertMessages(this.sql, this.id, data, options);
+  async sendBulk<TTypes extends Record<string, unknown> = {}>(
+    data: T[],
+    options?: MessageOptions<T, TTypes>,
+  ): Promise<Message<T>[]> {
+    const schema = this.schema;
+    const validatedData = schema ? await Promise.all(data.map((data) => validateMessageData(schema, data))) : data;
+
+    const { messages, insertedMessages } = await insertMessages(this.sql, this, validatedData, options, this.codec);
 
-    for (const message of messages) {
-      this.emit('send', message);
+    // Messages sent in a transaction may still be rolled back
+    if (!options?.tx) {
+      for (const message of insertedMessages) {
+        this.emit('send', message);
+      }
     }
 
     return messages;
   }
 
-  async schedule(
+  async schedule<TTypes extends Record<string, unknown> = {}>(
     scheduledMessageName: string,
     config: ScheduledMessageConfig,
     data: T,
-    options?: MessageOptions,
+    options?: Omit<MessageOptions<T, TTypes>, 'deduplicationKey' | 'deduplicationWindowInMs'>,
   ): Promise<ScheduledMessage<T>> {
     const now = new Date();
     const nextOccurrenceAt = CronExpressionParser.parse(config.cron).next().toDate();
 
-    const row: ScheduledMessageRow<T> = {
+    const row: ScheduledMessageRow = {
       topic_id: this.id,
       name: scheduledMessageName,
-      data,
+      data: encodeMessageData(this.codec, this.schema ? await validateMessageData(this.schema, data) : data),
       created_at: now,
       updated_at: null,
       cron: config.cron,
@@ -128,15 +239,20 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
       deliver_at: options?.deliverAt ?? null,
       deliver_in_ms: options?.deliverInMs ?? null,
       priority: options?.priority ?? null,
+      key: options?.key ?? null,
+      headers: options?.headers ?? {},
+      handler_timeout_in_ms: options?.handlerTimeoutInMs ?? null,
       repeats: config.repeats ?? null,
       repeats_made: 0,
     };
 
     const updatedAt = new Date();
 
-    const [{ inserted }]: [{ inserted: boolean }] = await this.sql`
+    const sql = options?.tx ?? this.sql;
+
+    const [{ inserted }]: [{ inserted: boolean }] = await sql`
       INSERT INTO
-        pg_transit_scheduled_messages ${this.sql(row)}
+        pg_transit_scheduled_messages ${sql(row)}
       ON CONFLICT (topic_id, name) DO UPDATE
       SET
         data = EXCLUDED.data,
@@ -145,6 +261,9 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
         deliver_in_ms = EXCLUDED.deliver_in_ms,
         deliver_at = EXCLUDED.deliver_at,
         priority = EXCLUDED.priority,
+        key = EXCLUDED.key,
+        headers = EXCLUDED.headers,
+        handler_timeout_in_ms = EXCLUDED.handler_timeout_in_ms,
         repeats = EXCLUDED.repeats,
         updated_at = ${updatedAt}
       RETURNING
@@ -155,32 +274,53 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
       row.updated_at = updatedAt;
     }
 
-    const message = new ScheduledMessage(this.sql, row);
+    const message = new ScheduledMessage<T>(this.sql, row, this.codec);
 
-    if (inserted) {
+    if (inserted && !options?.tx) {
       this.emit('schedule', message);
     }
 
     return message;
   }
 
-  async getMessages(): Promise<Message<T>[]> {
-    const rows: MessageRow<T>[] = await this.sql`
+  /**
+   * Get message stats of the topic, aggregated across its subscriptions.
+   */
+  async getStats(options?: StatsOptions): Promise<TopicStats> {
+    const stats = await getStats(this.sql, this.sql`pg_transit_topics.id = ${this.id}`, options);
+
+    return stats.topics[this.name]!;
+  }
+
+  async getMessages(filter?: TopicMessagesFilter): Promise<Message<T>[]> {
+    const rows: MessageRow[] = await this.sql`
       SELECT
         *
       FROM
         pg_transit_messages
       WHERE
-        topic_id = ${this.id}
+        topic_id = ${this.id} ${filter?.headers
+        ? this.sql` AND headers @> ${this.sql.json(filter.headers)} `
+        : this.sql``} ${filter?.ids ? this.sql` AND id = ANY (${this.sql.array(filter.ids)}::uuid[]) ` : this.sql``}
       ORDER BY
-        id
+        id ${filter?.order === 'desc' ? this.sql`DESC` : this.sql``} ${filter?.limit === undefined
+        ? this.sql``
+        : this.sql`
+            LIMIT
+              ${filter.limit}
+          `} ${filter?.offset === undefined
+        ? this.sql``
+        : this.sql`
+            OFFSET
+              ${filter.offset}
+          `}
     `;
 
-    return rows.map((row) => new Message(this.sql, row));
+    return rows.map((row) => new Message<T>(this.sql, row, this.codec));
   }
 
   async getScheduledMessages(): Promise<ScheduledMessage<T>[]> {
-    const rows: ScheduledMessageRow<T>[] = await this.sql`
+    const rows: ScheduledMessageRow[] = await this.sql`
       SELECT
         *
       FROM
@@ -189,11 +329,11 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
         topic_id = ${this.id}
     `;
 
-    return rows.map((row) => new ScheduledMessage(this.sql, row));
+    return rows.map((row) => new ScheduledMessage<T>(this.sql, row, this.codec));
   }
 
   async trim(): Promise<number> {
-    if (this.maxMessagesRetention === Infinity) {
+    if (this.maxMessagesRetention === Infinity && this.maxMessageAgeInMs === undefined) {
       return 0;
     }
 
@@ -227,30 +367,40 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
         `;
       }
 
-      const [latestMessageToRemove]: [{ id: string }?] = await sql`
-        SELECT
-          id
-        FROM
-          pg_transit_messages
-        WHERE
-          topic_id = ${this.id} ${earliestUnprocessedMessage ? sql`AND id < ${earliestUnprocessedMessage.id}` : sql``}
-        ORDER BY
-          id DESC
-        LIMIT
-          1
-        OFFSET
-          ${this.maxMessagesRetention}
-      `;
+      let latestMessageToRemove: { id: string } | undefined;
+
+      if (this.maxMessagesRetention !== Infinity) {
+        [latestMessageToRemove] = await sql`
+          SELECT
+            id
+          FROM
+            pg_transit_messages
+          WHERE
+            topic_id = ${this.id} ${earliestUnprocessedMessage ? sql`AND id < ${earliestUnprocessedMessage.id}` : sql``}
+          ORDER BY
+            id DESC
+          LIMIT
+            1
+          OFFSET
+            ${this.maxMessagesRetention}
+        `;
+      }
 
-      if (!latestMessageToRemove) {
+      const expiredBefore =
+        this.maxMessageAgeInMs === undefined ? undefined : new Date(Date.now() - this.maxMessageAgeInMs);
+
+      if (!latestMessageToRemove && !expiredBefore) {
         return 0;
       }
 
       const { count } = await sql`
         DELETE FROM pg_transit_messages
         WHERE
-          topic_id = ${this.id}
-          AND id <= ${latestMessageToRemove.id}
+          topic_id = ${this.id} ${earliestUnprocessedMessage ? sql`AND id < ${earliestUnprocessedMessage.id}` : sql``}
+          AND (
+            ${latestMessageToRemove ? sql`id <= ${latestMessageToRemove.id}` : sql`FALSE`}
+            OR ${expiredBefore ? sql`created_at < ${expiredBefore}` : sql`FALSE`}
+          )
       `;
 
       return count;
@@ -263,6 +413,41 @@ export class Topic<T extends JSONValue> extends EventEmitter<{
     return count;
   }
 
+  /**
+   * Stop delivering messages of all the topic subscriptions to their consumers, across all processes, until resumed.
+   *
+   * Messages can still be sent to the topic, and the pause state of each subscription is kept on resume.
+   */
+  async pause(): Promise<void> {
+    await this.sql`
+      UPDATE pg_transit_topics
+      SET
+        paused = TRUE
+      WHERE
+        id = ${this.id}
+    `;
+
+    this._paused = true;
+
+    this.emit('paused');
+  }
+
+  async resume(): Promise<void> {
+    await this.sql`
+      UPDATE pg_transit_topics
+      SET
+        paused = FALSE
+      WHERE
+        id = ${this.id}
+    `;
+
+    this._paused = false;
+
+    await notifyTopicSubscriptions(this.sql, this.id);
+
+    this.emit('resumed');
+  }
+
   async clear(): Promise<void> {
     await this.sql.begin(async (sql) => {
       await sql`
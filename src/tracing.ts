@@ -0,0 +1,102 @@
+import type * as OpenTelemetry from '@opentelemetry/api';
+import type { Link, Span, SpanOptions } from '@opentelemetry/api';
+import type { MessageHeaders } from './message';
+
+/**
+ * The OpenTelemetry API is an optional peer dependency, tracing is disabled when it is not installed.
+ */
+const api = loadApi();
+
+function loadApi(): typeof OpenTelemetry | undefined {
+  // Synchronous, so spans can be started right away, the ESM build providing `require` through `createRequire`
+  try {
+    return require('@opentelemetry/api');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Spans are no-ops until the application registers an OpenTelemetry SDK, making tracing opt-in.
+ */
+const tracer = api?.trace.getTracer('pg-transit');
+
+/**
+ * The span kinds and status codes used by pg-transit, as the API enums are not available when the API is not installed.
+ */
+export const SpanKind = { PRODUCER: 3, CONSUMER: 4 } as const satisfies Record<string, OpenTelemetry.SpanKind>;
+
+const SpanStatusCode = { ERROR: 2 } as const satisfies Record<string, OpenTelemetry.SpanStatusCode>;
+
+const noopSpan: Span = {
+  spanContext: () => ({ traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 0 }),
+  setAttribute: () => noopSpan,
+  setAttributes: () => noopSpan,
+  addEvent: () => noopSpan,
+  addLink: () => noopSpan,
+  addLinks: () => noopSpan,
+  setStatus: () => noopSpan,
+  updateName: () => noopSpan,
+  end: () => {},
+  isRecording: () => false,
+  recordException: () => {},
+};
+
+/**
+ * Run a callback in an active span, recording thrown errors on the span.
+ */
+export async function withSpan<R>(name: string, options: SpanOptions, fn: (span: Span) => Promise<R>): Promise<R> {
+  if (!tracer) {
+    return await fn(noopSpan);
+  }
+
+  return await tracer.startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (e) {
+      recordError(span, e as Error);
+      throw e;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Start a span to end manually, for work that does not fit in a single callback.
+ */
+export function startSpan(name: string, options: SpanOptions): Span {
+  return tracer?.startSpan(name, options) ?? noopSpan;
+}
+
+/**
+ * Run a callback with the given span as active span, so spans created by the callback are its children.
+ */
+export function runInSpan<R>(span: Span, fn: () => R): R {
+  return api ? api.context.with(api.trace.setSpan(api.context.active(), span), fn) : fn();
+}
+
+export function recordError(span: Span, error: Error) {
+  span.recordException(error);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+}
+
+/**
+ * Add the active trace context to message headers, as W3C `traceparent` and `tracestate` headers.
+ */
+export function injectTraceContext(headers: MessageHeaders): MessageHeaders {
+  const carrier = { ...headers };
+
+  api?.propagation.inject(api.context.active(), carrier);
+
+  return carrier;
+}
+
+/**
+ * Link to the span the message was sent from, using the trace context stored in the message headers.
+ */
+export function getProducerLink(headers: MessageHeaders): Link | undefined {
+  const spanContext = api?.trace.getSpanContext(api.propagation.extract(api.ROOT_CONTEXT, headers));
+
+  return spanContext && api?.trace.isSpanContextValid(spanContext) ? { context: spanContext } : undefined;
+}
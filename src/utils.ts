@@ -44,7 +44,7 @@ export function patchAsyncMethods<T>(target: T, config: { doBefore: (instance: T
       return;
     }
 
-    const prop = (target as any)[propName];
+    const prop = Object.getOwnPropertyDescriptor(target, propName)?.value; // Do not evaluate getters
 
     if (!isAsyncFunction(prop)) {
       return;
@@ -56,3 +56,26 @@ export function patchAsyncMethods<T>(target: T, config: { doBefore: (instance: T
     };
   });
 }
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+
+  return aKeys.every((key) => isDeepEqual((a as any)[key], (b as any)[key]));
+}
@@ -0,0 +1,69 @@
+/**
+ * The Standard Schema interface, implemented by validation libraries such as zod, valibot or arktype.
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+}
+
+export class ValidationError extends Error {
+  readonly issues: ReadonlyArray<StandardSchemaV1.Issue>;
+
+  constructor(issues: ReadonlyArray<StandardSchemaV1.Issue>) {
+    super(`Invalid message data: ${issues.map((issue) => issue.message).join(', ')}`);
+
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate message data against a schema.
+ *
+ * @returns The validated data, as output by the schema
+ * @throws {ValidationError} If the data does not match the schema
+ */
+export async function validateMessageData<T>(schema: StandardSchemaV1<unknown, T>, data: unknown): Promise<T> {
+  const result = await schema['~standard'].validate(data);
+
+  if (result.issues) {
+    throw new ValidationError(result.issues);
+  }
+
+  return result.value;
+}
@@ -0,0 +1,225 @@
+import { expect, test } from 'bun:test';
+import type { SubscriptionMessage } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+test('A batch consumer handles messages in batches of up to max batch size', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2, 3, 4, 5]);
+
+  const batches: number[][] = [];
+
+  const consumer = subscription.consumeBatch(
+    (messages) => {
+      batches.push(messages.map((message) => message.data));
+    },
+    { maxBatchSize: 2 },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(batches).toEqual([[1, 2], [3, 4], [5]]);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.status)).toEqual(Array(5).fill('completed'));
+});
+
+test('A failing batch handler fails all messages of the batch', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2]);
+
+  const failedMessages: SubscriptionMessage<number>[] = [];
+
+  const consumer = subscription.consumeBatch(() => {
+    throw new Error('Batch failed');
+  });
+
+  consumer.on('failed', (message) => {
+    failedMessages.push(message);
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(failedMessages.map((message) => message.data)).toEqual([1, 2]);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.status)).toEqual(['failed', 'failed']);
+  expect(messages[0]!.errorStack).toContain('Batch failed');
+});
+
+test('A batch handler can fail individual messages', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2, 3]);
+
+  const completedMessages: number[] = [];
+  const failedMessages: number[] = [];
+
+  const consumer = subscription.consumeBatch(async (messages) => {
+    await messages[1]!.fail(new Error('Invalid message'));
+  });
+
+  consumer.on('completed', (message) => {
+    completedMessages.push(message.data);
+  });
+  consumer.on('failed', (message) => {
+    failedMessages.push(message.data);
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(completedMessages).toEqual([1, 3]);
+  expect(failedMessages).toEqual([2]);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.status)).toEqual(['completed', 'failed', 'completed']);
+});
+
+test('A batch consumer waits up to max wait time to fill a batch', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  const batches: number[][] = [];
+
+  const consumer = subscription.consumeBatch(
+    (messages) => {
+      batches.push(messages.map((message) => message.data));
+    },
+    { maxBatchSize: 3, maxWaitInMs: 500 },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  await topic.send(1);
+  await Bun.sleep(50);
+  await topic.send(2);
+  await Bun.sleep(50);
+  await topic.send(3);
+
+  await Bun.sleep(50);
+  await consumer.waitIdle();
+
+  expect(batches).toEqual([[1, 2, 3]]);
+});
+
+test('A batch consumer handles a partial batch after max wait time', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  await topic.send(1);
+
+  const batches: number[][] = [];
+
+  const start = Date.now();
+
+  const consumer = subscription.consumeBatch(
+    (messages) => {
+      batches.push(messages.map((message) => message.data));
+    },
+    { maxBatchSize: 3, maxWaitInMs: 100 },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(batches).toEqual([[1]]);
+  expect(Date.now() - start).toBeGreaterThanOrEqual(100);
+});
+
+test('Batches of a sequential subscription contain a single message', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'sequential',
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2]);
+
+  const batches: number[][] = [];
+
+  const consumer = subscription.consumeBatch(
+    (messages) => {
+      batches.push(messages.map((message) => message.data));
+    },
+    { maxBatchSize: 10, maxWaitInMs: 1000 },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(batches).toEqual([[1], [2]]);
+});
+
+test('Invalid messages are failed and left out of the batch when validating', async () => {
+  const topic = transit.topic<number>(randomName('topic'), {
+    schema: {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => (typeof value === 'number' ? { value } : { issues: [{ message: 'Expected a number' }] }),
+      },
+    },
+  });
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  await transit.topic(topic.name).sendBulk([1, 'two', 3]);
+
+  const batches: number[][] = [];
+
+  const consumer = subscription.consumeBatch(
+    (messages) => {
+      batches.push(messages.map((message) => message.data));
+    },
+    { validate: true },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(batches).toEqual([[1, 3]]);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.status)).toEqual(['completed', 'failed', 'completed']);
+});
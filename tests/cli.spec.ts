@@ -0,0 +1,152 @@
+import { expect, test } from 'bun:test';
+import { runCli } from '../src/cli';
+import { createTestContext, randomName, TEST_CONNECTION_URL } from './utils';
+
+const { transit } = createTestContext();
+
+async function setup() {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  return { topic, subscription };
+}
+
+async function cli(...args: string[]) {
+  let stdout = '';
+  let stderr = '';
+
+  const exitCode = await runCli(['--url', TEST_CONNECTION_URL, ...args], {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+
+  return { exitCode, stdout, stderr };
+}
+
+async function cliJson(...args: string[]) {
+  const { exitCode, stdout, stderr } = await cli(...args, '--json');
+
+  expect(stderr).toBe('');
+  expect(exitCode).toBe(0);
+
+  return JSON.parse(stdout);
+}
+
+test('List topics and subscriptions', async () => {
+  const { topic, subscription } = await setup();
+
+  await topic.sendBulk(['foo', 'bar']);
+
+  const topics = await cliJson('topics', 'list');
+  expect(topics).toContainEqual(expect.objectContaining({ topic: topic.name, subscriptions: 1, waiting: 2 }));
+
+  const subscriptions = await cliJson('subscriptions', 'list', '--topic', topic.name);
+  expect(subscriptions).toEqual([
+    expect.objectContaining({ topic: topic.name, subscription: subscription.name, waiting: 2, failed: 0 }),
+  ]);
+
+  const { exitCode, stdout } = await cli('subscriptions', 'list', '--topic', topic.name);
+  expect(exitCode).toBe(0);
+  expect(stdout).toMatch(new RegExp(`^topic +subscription +waiting .*\\n${topic.name} +${subscription.name} +2 `));
+});
+
+test('List failed messages and retry them', async () => {
+  const { topic, subscription } = await setup();
+
+  await topic.sendBulk(['foo', 'bar']);
+
+  const [message] = await subscription.getNextMessages(1);
+  await message!.fail(new Error('Boom'));
+
+  const failed = await cliJson('messages', 'list', '-t', topic.name, '-s', subscription.name, '--status', 'failed');
+  expect(failed).toEqual([
+    expect.objectContaining({ id: message!.id, status: 'failed', attempts: 1, data: 'foo', error: expect.any(String) }),
+  ]);
+  expect(failed[0].error).toStartWith('Error: Boom');
+
+  expect(await cliJson('messages', 'retry', '-t', topic.name, '-s', subscription.name, message!.id)).toEqual({
+    count: 1,
+  });
+
+  const [retried] = await subscription.getMessages('waiting');
+  expect(retried!.id).toBe(message!.id);
+});
+
+test('Limit listed messages', async () => {
+  const { topic, subscription } = await setup();
+
+  await topic.sendBulk(['foo', 'bar', 'baz']);
+
+  const messages = await cliJson('messages', 'list', '-t', topic.name, '--limit', '2');
+  expect(messages.map((message: { data: string }) => message.data)).toEqual(['foo', 'bar']);
+
+  const subscriptionMessages = await cliJson(
+    'messages',
+    'list',
+    '-t',
+    topic.name,
+    '-s',
+    subscription.name,
+    '--limit',
+    '1',
+  );
+  expect(subscriptionMessages.map((message: { data: string }) => message.data)).toEqual(['foo']);
+});
+
+test('Remove messages and scheduled messages', async () => {
+  const { topic } = await setup();
+
+  const [foo, bar] = await topic.sendBulk(['foo', 'bar']);
+  await topic.schedule('daily', { cron: '0 0 * * *' }, 'baz');
+
+  expect(await cliJson('schedules', 'list', '--topic', topic.name)).toEqual([
+    expect.objectContaining({ name: 'daily', cron: '0 0 * * *', data: 'baz' }),
+  ]);
+
+  expect(await cliJson('messages', 'remove', '--topic', topic.name, foo!.id)).toEqual({ count: 1 });
+  expect(await cliJson('schedules', 'remove', '--topic', topic.name, 'daily')).toEqual({ count: 1 });
+
+  expect((await topic.getMessages()).map((message) => message.id)).toEqual([bar!.id]);
+  expect(await topic.getScheduledMessages()).toEqual([]);
+});
+
+test('Trim topics with the given retention', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  // Messages of topics without subscriptions are acknowledged
+  await topic.sendBulk(['foo', 'bar', 'baz']);
+
+  expect(await cliJson('trim', '--topic', topic.name, '--max-messages-retention', '1')).toEqual({ count: 2 });
+
+  expect((await topic.getMessages()).map((message) => message.data)).toEqual(['baz']);
+});
+
+test('Run migrations', async () => {
+  expect(await cliJson('migrate')).toEqual({ version: expect.any(String) });
+});
+
+test('Report usage errors and unknown topics', async () => {
+  const topicName = randomName('topic');
+
+  const unknownTopic = await cli('schedules', 'list', '--topic', topicName);
+  expect(unknownTopic.exitCode).toBe(1);
+  expect(unknownTopic.stderr).toBe(`Topic "${topicName}" not found\n`);
+
+  // The topic is not created
+  expect((await transit.getStats()).topics[topicName]).toBeUndefined();
+
+  const unknownCommand = await cli('topics', 'drop');
+  expect(unknownCommand.exitCode).toBe(1);
+  expect(unknownCommand.stderr).toStartWith('Unknown command "topics drop"\n\nUsage: pg-transit');
+
+  const missingOption = await cli('messages', 'retry', '--topic', topicName);
+  expect(missingOption.exitCode).toBe(1);
+  expect(missingOption.stderr).toStartWith('Missing --subscription\n');
+
+  const invalidId = await cli('messages', 'remove', '--topic', topicName, 'foo');
+  expect(invalidId.exitCode).toBe(1);
+  expect(invalidId.stderr).toStartWith('Invalid message id "foo"\n');
+});
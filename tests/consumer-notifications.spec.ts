@@ -0,0 +1,155 @@
+import { expect, test } from 'bun:test';
+import type { JSONValue } from 'postgres';
+import type { SubscriptionMessage } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit, newPgTransit } = createTestContext();
+
+test('Consumers are woken up as soon as a message is sent', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  const consumed: SubscriptionMessage<JSONValue>[] = [];
+  const consumer = subscription.consume(
+    (message) => {
+      consumed.push(message);
+    },
+    {
+      pollingIntervalInMs: 60_000,
+    },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  const message = await topic.send({ foo: 'bar' });
+
+  await Bun.sleep(100);
+  await consumer.waitIdle();
+
+  expect(consumed).toHaveLength(1);
+  expect(consumed[0]!.id).toBe(message.id);
+});
+
+test('Consumers of another PgTransit instance are woken up', async () => {
+  const otherTransit = newPgTransit();
+
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+
+  const subscription = otherTransit.topic(topicName).subscribe(subscriptionName);
+
+  const consumed: SubscriptionMessage<JSONValue>[] = [];
+  const consumer = subscription.consume(
+    (message) => {
+      consumed.push(message);
+    },
+    {
+      pollingIntervalInMs: 60_000,
+    },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  await transit.topic(topicName).sendBulk([{ foo: 'bar' }, { bar: 'baz' }]);
+
+  await Bun.sleep(100);
+  await consumer.waitIdle();
+
+  expect(consumed).toHaveLength(2);
+});
+
+test('Consumers are woken up when a failed message is waiting for a retry', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+    maxAttempts: 2,
+  });
+
+  await subscription.waitInit();
+
+  const message = await topic.send({ foo: 'bar' });
+
+  const [subscriptionMessage] = await subscription.getNextMessages(1);
+
+  const consumed: SubscriptionMessage<JSONValue>[] = [];
+  const consumer = subscription.consume(
+    (message) => {
+      consumed.push(message);
+    },
+    {
+      pollingIntervalInMs: 60_000,
+    },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(consumed).toHaveLength(0);
+
+  await subscriptionMessage!.fail(new Error('Error'));
+
+  await Bun.sleep(100);
+  await consumer.waitIdle();
+
+  expect(consumed).toHaveLength(1);
+  expect(consumed[0]!.id).toBe(message.id);
+  expect(consumed[0]!.attempts).toBe(2);
+});
+
+test('Consumers are not woken up when not listening for notifications', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  const consumed: SubscriptionMessage<JSONValue>[] = [];
+  const consumer = subscription.consume(
+    (message) => {
+      consumed.push(message);
+    },
+    {
+      listen: false,
+      pollingIntervalInMs: 60_000,
+    },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  await topic.send({ foo: 'bar' });
+
+  await Bun.sleep(100);
+
+  expect(consumed).toHaveLength(0);
+
+  await consumer.stop();
+});
+
+test('Stopped consumers are not woken up', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  const consumed: SubscriptionMessage<JSONValue>[] = [];
+  const consumer = subscription.consume(
+    (message) => {
+      consumed.push(message);
+    },
+    {
+      pollingIntervalInMs: 60_000,
+    },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+  await consumer.stop();
+
+  await topic.send({ foo: 'bar' });
+
+  await Bun.sleep(100);
+
+  expect(consumed).toHaveLength(0);
+});
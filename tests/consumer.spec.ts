@@ -130,13 +130,26 @@ test('Autostart consumer by default', async () => {
   expect(consumer.isIdle).toBe(false);
 });
 
-test('Default polling interval is 1 second', async () => {
+test('Default polling interval is 5 seconds when listening for notifications', async () => {
   const topic = transit.topic('topic');
 
   const subscription = topic.subscribe(randomName('subscription'));
 
   const consumer = subscription.consume(async () => {});
 
+  expect(consumer.listen).toBe(true);
+  expect(consumer.pollingIntervalInMs).toBe(5000);
+});
+
+test('Default polling interval is 1 second when not listening for notifications', async () => {
+  const topic = transit.topic('topic');
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  const consumer = subscription.consume(async () => {}, {
+    listen: false,
+  });
+
   expect(consumer.pollingIntervalInMs).toBe(1000);
 });
 
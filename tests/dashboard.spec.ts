@@ -0,0 +1,228 @@
+import { expect, test } from 'bun:test';
+import { createServer } from 'node:http';
+import { Dashboard } from '../src/dashboard';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+async function setup() {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const dashboard = new Dashboard({ subscriptions: [subscription], basePath: '/admin' });
+
+  return { topic, subscription, dashboard };
+}
+
+const csrfToken = crypto.randomUUID();
+
+function post(dashboard: Dashboard, path: string, form: Record<string, string> = {}) {
+  return dashboard.fetch(
+    new Request(`http://localhost/admin${path}`, {
+      method: 'POST',
+      headers: { Cookie: `pg_transit_csrf=${csrfToken}` },
+      body: new URLSearchParams({ ...form, csrf: csrfToken }),
+    }),
+  );
+}
+
+test('List topics and subscriptions with their backlog', async () => {
+  const { topic, subscription, dashboard } = await setup();
+
+  await topic.sendBulk(['foo', 'bar']);
+
+  const response = await dashboard.fetch(new Request('http://localhost/admin'));
+
+  expect(response.status).toBe(200);
+  expect(response.headers.get('Content-Type')).toContain('text/html');
+
+  const body = await response.text();
+  expect(body).toContain(`href="/admin/topics/${topic.name}"`);
+  expect(body).toContain(`href="/admin/topics/${topic.name}/subscriptions/${subscription.name}"`);
+  expect(body).toContain('<td>2</td>');
+});
+
+test('Browse failed messages and retry them', async () => {
+  const { topic, subscription, dashboard } = await setup();
+
+  await topic.send({ html: '<script>' });
+
+  const [message] = await subscription.getNextMessages(1);
+  await message!.fail(new Error('Boom'));
+
+  const body = await (
+    await dashboard.fetch(new Request(`http://localhost/admin/topics/${topic.name}/subscriptions/${subscription.name}`))
+  ).text();
+
+  expect(body).toContain('Error: Boom');
+  expect(body).toContain('&lt;script&gt;');
+  expect(body).not.toContain('<script>');
+
+  const response = await post(
+    dashboard,
+    `/topics/${topic.name}/subscriptions/${subscription.name}/messages/${message!.id}/retry`,
+  );
+
+  expect(response.status).toBe(303);
+  expect(response.headers.get('Location')).toBe(`/admin/topics/${topic.name}/subscriptions/${subscription.name}`);
+
+  const [retried] = await subscription.getMessages();
+  expect(retried!.status).toBe('waiting');
+});
+
+test('Pause and replay subscriptions', async () => {
+  const { topic, subscription, dashboard } = await setup();
+
+  await topic.send('foo');
+
+  const [message] = await subscription.getNextMessages(1);
+  await message!.complete();
+
+  await post(dashboard, `/topics/${topic.name}/subscriptions/${subscription.name}/pause`);
+  expect(subscription.isPaused).toBe(true);
+
+  await post(dashboard, `/topics/${topic.name}/subscriptions/${subscription.name}/replay`, { to: 'earliest' });
+
+  const [replayed] = await subscription.getMessages();
+  expect(replayed!.status).toBe('waiting');
+
+  // Paused subscriptions do not deliver messages
+  expect(await subscription.getNextMessages(1)).toEqual([]);
+});
+
+test('Remove messages and scheduled messages', async () => {
+  const { topic, dashboard } = await setup();
+
+  const message = await topic.send('foo');
+  await topic.schedule('daily', { cron: '0 0 * * *' }, 'bar');
+
+  await post(dashboard, `/topics/${topic.name}/messages/${message.id}/remove`);
+  await post(dashboard, `/topics/${topic.name}/scheduled-messages/daily/remove`);
+
+  expect(await topic.getMessages()).toEqual([]);
+  expect(await topic.getScheduledMessages()).toEqual([]);
+});
+
+test('Paginate messages, latest first', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const dashboard = new Dashboard({ topics: [topic], basePath: '/admin', pageSize: 2 });
+
+  await topic.sendBulk(['foo', 'bar', 'baz']);
+
+  const firstPage = await (await dashboard.fetch(new Request(`http://localhost/admin/topics/${topic.name}`))).text();
+  expect(firstPage).toMatch(/&quot;baz&quot;[^]*&quot;bar&quot;/);
+  expect(firstPage).not.toContain('&quot;foo&quot;');
+  expect(firstPage).toContain(`<a href="/admin/topics/${topic.name}?page=2">Next</a>`);
+
+  const secondPage = await (
+    await dashboard.fetch(new Request(`http://localhost/admin/topics/${topic.name}?page=2`))
+  ).text();
+  expect(secondPage).toContain('&quot;foo&quot;');
+  expect(secondPage).not.toContain('&quot;bar&quot;');
+  expect(secondPage).not.toContain('>Next</a>');
+});
+
+test('Reject actions without the CSRF token of the dashboard cookie', async () => {
+  const { topic, dashboard } = await setup();
+
+  const page = await dashboard.fetch(new Request(`http://localhost/admin/topics/${topic.name}`));
+
+  const cookie = page.headers.get('Set-Cookie')!;
+  expect(cookie).toMatch(/^pg_transit_csrf=[\w-]+; Path=\/admin; HttpOnly; SameSite=Strict$/);
+
+  const token = cookie.split(';')[0]!.split('=')[1]!;
+  expect(await page.text()).toContain(`<input type="hidden" name="csrf" value="${token}">`);
+
+  const pause = (headers: Record<string, string>, form: Record<string, string>) =>
+    dashboard.fetch(
+      new Request(`http://localhost/admin/topics/${topic.name}/pause`, {
+        method: 'POST',
+        headers,
+        body: new URLSearchParams(form),
+      }),
+    );
+
+  expect((await pause({}, {})).status).toBe(403);
+  expect((await pause({}, { csrf: token })).status).toBe(403);
+  expect((await pause({ Cookie: `pg_transit_csrf=${token}` }, { csrf: crypto.randomUUID() })).status).toBe(403);
+  expect(topic.isPaused).toBe(false);
+
+  expect((await pause({ Cookie: `pg_transit_csrf=${token}` }, { csrf: token })).status).toBe(303);
+  expect(topic.isPaused).toBe(true);
+});
+
+test('Respond 404 to unknown topics and paths', async () => {
+  const { dashboard } = await setup();
+
+  expect((await dashboard.fetch(new Request('http://localhost/admin/topics/unknown'))).status).toBe(404);
+  expect((await dashboard.fetch(new Request('http://localhost/admin/unknown'))).status).toBe(404);
+  expect((await post(dashboard, '/topics/unknown/pause')).status).toBe(404);
+});
+
+test('Respond 400 to invalid replay positions', async () => {
+  const { topic, subscription, dashboard } = await setup();
+
+  const response = await post(dashboard, `/topics/${topic.name}/subscriptions/${subscription.name}/replay`, {
+    to: 'not-an-id',
+  });
+
+  expect(response.status).toBe(400);
+});
+
+test('Respond 500 to unexpected errors', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const errors: unknown[] = [];
+  const dashboard = new Dashboard({
+    subscriptions: [subscription],
+    basePath: '/admin',
+    onError: (e) => errors.push(e),
+  });
+
+  subscription.pause = async () => {
+    throw new Error('Boom');
+  };
+
+  const response = await post(dashboard, `/topics/${topic.name}/subscriptions/${subscription.name}/pause`);
+
+  expect(response.status).toBe(500);
+  expect(errors).toEqual([new Error('Boom')]);
+});
+
+test('Respond 400 to malformed paths', async () => {
+  const { dashboard } = await setup();
+
+  expect((await dashboard.fetch(new Request('http://localhost/admin/topics/%E0%A4%A'))).status).toBe(400);
+});
+
+test('Serve the dashboard with node:http', async () => {
+  const { topic, dashboard } = await setup();
+
+  const server = createServer(dashboard.nodeHandler);
+
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+
+  try {
+    const { port } = server.address() as { port: number };
+
+    const response = await fetch(`http://localhost:${port}/admin/topics/${topic.name}/pause`, {
+      method: 'POST',
+      headers: { Cookie: `pg_transit_csrf=${csrfToken}` },
+      body: new URLSearchParams({ csrf: csrfToken }),
+      redirect: 'manual',
+    });
+
+    expect(response.status).toBe(303);
+    expect(topic.isPaused).toBe(true);
+  } finally {
+    server.close();
+  }
+});
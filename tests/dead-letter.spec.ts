@@ -0,0 +1,203 @@
+import { expect, test } from 'bun:test';
+import type { DeadLetter } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit, newPgTransit } = createTestContext();
+
+test('Failed messages are published to the dead letter topic once all attempts are exhausted', async () => {
+  const topic = transit.topic(randomName('topic'));
+  const deadLetterTopic = transit.topic<DeadLetter>(randomName('dead-letter-topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    maxAttempts: 2,
+    deadLetterTopic,
+  });
+
+  await subscription.waitInit();
+
+  const message = await topic.send({ foo: 'bar' });
+
+  let attempts = 0;
+  const consumer = subscription.consume(async () => {
+    attempts++;
+
+    if (attempts === 2) {
+      expect(await deadLetterTopic.getMessages()).toHaveLength(0); // Not dead-lettered until the last attempt
+    }
+
+    throw new Error('Error');
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(attempts).toBe(2);
+
+  const deadLetterMessages = await deadLetterTopic.getMessages();
+  expect(deadLetterMessages).toHaveLength(1);
+
+  const deadLetter = deadLetterMessages[0]!.data;
+  expect(deadLetter.messageId).toBe(message.id);
+  expect(deadLetter.topicName).toBe(topic.name);
+  expect(deadLetter.subscriptionName).toBe(subscription.name);
+  expect(deadLetter.data).toEqual({ foo: 'bar' });
+  expect(deadLetter.attempts).toBe(2);
+  expect(deadLetter.errorStack).toContain('Error: Error');
+});
+
+test('Dead letter topic can be consumed by its own subscriptions', async () => {
+  const topic = transit.topic(randomName('topic'));
+  const deadLetterTopic = transit.topic<DeadLetter>(randomName('dead-letter-topic'));
+
+  const deadLetterSubscription = deadLetterTopic.subscribe(randomName('subscription'));
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+    deadLetterTopic,
+  });
+
+  await Promise.all([subscription.waitInit(), deadLetterSubscription.waitInit()]);
+
+  const message = await topic.send({ foo: 'bar' });
+
+  const consumer = subscription.consume(() => {
+    throw new Error('Error');
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  const deadLetterMessages = await deadLetterSubscription.getMessages('waiting');
+  expect(deadLetterMessages).toHaveLength(1);
+  expect(deadLetterMessages[0]!.data.messageId).toBe(message.id);
+});
+
+test('Redrive a dead-lettered message back to the subscription', async () => {
+  const topic = transit.topic(randomName('topic'));
+  const deadLetterTopic = transit.topic<DeadLetter>(randomName('dead-letter-topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    maxAttempts: 2,
+    deadLetterTopic,
+  });
+
+  await subscription.waitInit();
+
+  const [message1] = await topic.sendBulk([{ foo: 'bar' }, { bar: 'baz' }]);
+
+  let fixed = false;
+  const consumed: string[] = [];
+  const consumer = subscription.consume((message) => {
+    consumed.push(message.id);
+
+    if (!fixed) {
+      throw new Error('Error');
+    }
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(await subscription.getMessages('failed')).toHaveLength(2);
+
+  const [deadLetter] = await deadLetterTopic.getMessages();
+
+  fixed = true;
+
+  const redrivenCount = await subscription.redrive(deadLetter!.data.messageId);
+  expect(redrivenCount).toBe(1);
+
+  await consumer.consume();
+
+  const completedMessages = await subscription.getMessages('completed');
+  expect(completedMessages).toHaveLength(1);
+  expect(completedMessages[0]!.id).toBe(message1!.id);
+  expect(completedMessages[0]!.attempts).toBe(1); // Attempts are reset when redriving
+
+  expect(await subscription.getMessages('failed')).toHaveLength(1);
+});
+
+test('Redrive all failed messages of a subscription', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([{ foo: 'bar' }, { bar: 'baz' }]);
+
+  let fixed = false;
+  const consumer = subscription.consume(() => {
+    if (!fixed) {
+      throw new Error('Error');
+    }
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  fixed = true;
+
+  const redrivenCount = await subscription.redrive();
+  expect(redrivenCount).toBe(2);
+
+  await consumer.consume();
+
+  expect(await subscription.getMessages('completed')).toHaveLength(2);
+});
+
+test('Messages failed by processes not declaring the dead letter topic are dead-lettered', async () => {
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+  const deadLetterTopic = transit.topic<DeadLetter>(randomName('dead-letter-topic'));
+
+  const subscription = transit.topic(topicName).subscribe(subscriptionName, { deadLetterTopic });
+
+  await subscription.waitInit();
+
+  // Another process declares the subscription without its dead letter topic
+  const otherTopic = newPgTransit().topic(topicName);
+  const otherSubscription = otherTopic.subscribe(subscriptionName);
+
+  await otherSubscription.waitInit();
+
+  const message = await otherTopic.send({ foo: 'bar' });
+
+  const [subscriptionMessage] = await otherSubscription.getNextMessages(1);
+  await subscriptionMessage!.fail(new Error('Error'));
+
+  const deadLetterMessages = await deadLetterTopic.getMessages();
+  expect(deadLetterMessages).toHaveLength(1);
+  expect(deadLetterMessages[0]!.data).toMatchObject({
+    messageId: message.id,
+    subscriptionName,
+    data: { foo: 'bar' },
+    attempts: 1,
+  });
+});
+
+test('Messages failed after being reset as stale too many times are dead-lettered', async () => {
+  const transit = newPgTransit({ staleMessageTimeoutInMs: 0 });
+
+  const topic = transit.topic(randomName('topic'));
+  const deadLetterTopic = transit.topic<DeadLetter>(randomName('dead-letter-topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { maxAttempts: 5, deadLetterTopic });
+
+  await subscription.waitInit();
+
+  const message = await topic.send({ foo: 'bar' });
+
+  await subscription.getNextMessages(1);
+  await transit.resetStaleMessages();
+
+  expect(await deadLetterTopic.getMessages()).toHaveLength(0); // Reset for a new attempt
+
+  await subscription.getNextMessages(1);
+  await transit.resetStaleMessages();
+
+  expect(await subscription.getMessages('failed')).toHaveLength(1);
+
+  const deadLetterMessages = await deadLetterTopic.getMessages();
+  expect(deadLetterMessages).toHaveLength(1);
+  expect(deadLetterMessages[0]!.data).toMatchObject({ messageId: message.id, attempts: 2, errorStack: null });
+});
@@ -0,0 +1,70 @@
+import { expect, test } from 'bun:test';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+test('Global concurrency limits the number of messages processed at once across all consumers', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscriptionName = randomName('subscription');
+  const options = { consumptionMode: 'parallel', globalConcurrency: 2 } as const;
+
+  const subscription1 = topic.subscribe(subscriptionName, options);
+  const subscription2 = transit.topic<number>(topic.name).subscribe(subscriptionName, options);
+
+  await Promise.all([subscription1.waitInit(), subscription2.waitInit()]);
+
+  await topic.sendBulk([1, 2, 3, 4, 5, 6]);
+
+  let processingCount = 0;
+  let maxProcessingCount = 0;
+
+  const handler = async () => {
+    processingCount++;
+    maxProcessingCount = Math.max(maxProcessingCount, processingCount);
+    await Bun.sleep(20);
+    processingCount--;
+  };
+
+  const consumer1 = subscription1.consume(handler, { concurrency: 5, pollingIntervalInMs: 10 });
+  const consumer2 = subscription2.consume(handler, { concurrency: 5, pollingIntervalInMs: 10 });
+
+  await Promise.all([consumer1.waitInit(), consumer2.waitInit()]);
+
+  while ((await subscription1.getMessages('completed')).length < 6) {
+    await Bun.sleep(10);
+  }
+
+  expect(maxProcessingCount).toBe(2);
+});
+
+test('Global concurrency counts processing messages not yet completed', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+    globalConcurrency: 2,
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2, 3]);
+
+  const messages = await subscription.getNextMessages(3);
+  expect(messages.map((message) => message.data)).toEqual([1, 2]);
+
+  expect(await subscription.getNextMessages(1)).toEqual([]);
+
+  await messages[0]!.complete();
+
+  const nextMessages = await subscription.getNextMessages(3);
+  expect(nextMessages.map((message) => message.data)).toEqual([3]);
+});
+
+test('Global concurrency must be greater than 0', () => {
+  const topic = transit.topic(randomName('topic'));
+
+  expect(() => topic.subscribe(randomName('subscription'), { globalConcurrency: 0 })).toThrow(
+    'Global concurrency must be greater than 0',
+  );
+});
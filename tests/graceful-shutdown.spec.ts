@@ -1,7 +1,7 @@
-import { test } from 'bun:test';
+import { expect, test } from 'bun:test';
 import { createTestContext, randomName } from './utils';
 
-const { newPgTransit } = createTestContext();
+const { transit: otherTransit, newPgTransit } = createTestContext();
 
 test('Graceful shutdown when resetting stale jobs', async () => {
   const transit = newPgTransit({
@@ -85,3 +85,111 @@ test('Graceful shutdown when initializing topics, subscriptions and consumers',
 
   await Bun.sleep(10);
 });
+
+test('Release messages still processing once the shutdown timeout is exceeded', async () => {
+  const transit = newPgTransit();
+
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+
+  const topic = transit.topic(topicName);
+
+  const subscription = topic.subscribe(subscriptionName, { consumptionMode: 'sequential' });
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  let aborted = false;
+  subscription.consume(async (message) => {
+    message.signal.addEventListener('abort', () => (aborted = true));
+
+    await new Promise(() => {}); // Hang forever, ignoring the signal
+  });
+
+  await Bun.sleep(20); // Be sure the message is picked up by the consumer
+
+  const start = Date.now();
+  await transit.close({ timeoutInMs: 50 });
+
+  expect(Date.now() - start).toBeLessThan(1000);
+  expect(aborted).toBe(true);
+
+  const otherSubscription = otherTransit
+    .topic(topicName)
+    .subscribe(subscriptionName, { consumptionMode: 'sequential' });
+
+  const [message] = await otherSubscription.getMessages();
+  expect(message!.status).toBe('waiting');
+  expect(message!.attempts).toBe(0);
+
+  // The sequential subscription is not locked by the released message
+  const [nextMessage] = await otherSubscription.getNextMessages(1);
+  expect(nextMessage!.id).toBe(message!.id);
+});
+
+test('Wait for handlers finishing before the shutdown timeout', async () => {
+  const transit = newPgTransit();
+
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+
+  const topic = transit.topic(topicName);
+
+  const subscription = topic.subscribe(subscriptionName);
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  let aborted = false;
+  subscription.consume(async (message) => {
+    await Bun.sleep(50);
+
+    aborted = message.signal.aborted;
+  });
+
+  await Bun.sleep(20); // Be sure the message is picked up by the consumer
+
+  await transit.close({ timeoutInMs: 1000 });
+
+  expect(aborted).toBe(false);
+
+  const [message] = await otherTransit.topic(topicName).subscribe(subscriptionName).getMessages();
+  expect(message!.status).toBe('completed');
+});
+
+test('Do not take new messages once stopped, when abandoned handlers finish', async () => {
+  const topic = otherTransit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { consumptionMode: 'parallel' });
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  let finishHandler!: () => void;
+  const handled: string[] = [];
+  const consumer = subscription.consume(async (message) => {
+    handled.push(message.data as string);
+
+    await new Promise<void>((resolve) => (finishHandler = resolve)); // Ignore the signal
+  });
+
+  await Bun.sleep(20); // Be sure the message is picked up by the consumer
+
+  await consumer.stop({ timeoutInMs: 50 });
+
+  await topic.send('bar');
+
+  finishHandler();
+  await Bun.sleep(50);
+
+  expect(handled).toEqual(['foo']);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => [message.data, message.status])).toEqual([
+    ['foo', 'waiting'],
+    ['bar', 'waiting'],
+  ]);
+});
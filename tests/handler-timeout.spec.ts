@@ -0,0 +1,120 @@
+import { expect, test } from 'bun:test';
+import { TimeoutError } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+test('Fail the message when the handler exceeds the timeout', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { maxAttempts: 1 });
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  let aborted = false;
+  const consumer = subscription.consume(
+    async (message) => {
+      message.signal.addEventListener('abort', () => (aborted = true));
+
+      await new Promise(() => {}); // Hang forever, ignoring the signal
+    },
+    { handlerTimeoutInMs: 20 },
+  );
+
+  const [, error] = await new Promise<[unknown, Error]>((resolve) =>
+    consumer.once('failed', (...args) => resolve(args)),
+  );
+
+  expect(error).toBeInstanceOf(TimeoutError);
+  expect((error as TimeoutError).timeoutInMs).toBe(20);
+  expect(aborted).toBe(true);
+
+  const [message] = await subscription.getMessages();
+  expect(message!.status).toBe('failed');
+  expect(message!.errorStack).toContain('TimeoutError');
+
+  // The concurrency slot is freed
+  await consumer.waitIdle();
+});
+
+test('Retry timed out messages following the subscription retry policy', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { maxAttempts: 2, retryDelayInMs: 0 });
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  let calls = 0;
+  subscription.consume(
+    async (message) => {
+      calls++;
+
+      if (calls === 1) {
+        await new Promise((resolve) => message.signal.addEventListener('abort', resolve));
+      }
+    },
+    { handlerTimeoutInMs: 20 },
+  );
+
+  await Bun.sleep(100);
+
+  expect(calls).toBe(2);
+
+  const [message] = await subscription.getMessages();
+  expect(message!.status).toBe('completed');
+  expect(message!.attempts).toBe(2);
+});
+
+test('Override the handler timeout per message', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { maxAttempts: 1 });
+
+  await subscription.waitInit();
+
+  const sent = await topic.send('foo', { handlerTimeoutInMs: 10 });
+  expect(sent.handlerTimeoutInMs).toBe(10);
+
+  await topic.send('bar');
+
+  subscription.consume(
+    async () => {
+      await Bun.sleep(50);
+    },
+    { handlerTimeoutInMs: 1000 },
+  );
+
+  await Bun.sleep(150);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => [message.data, message.status])).toEqual([
+    ['foo', 'failed'],
+    ['bar', 'completed'],
+  ]);
+});
+
+test('Do not time out handlers without timeout', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  const consumer = subscription.consume(async (message) => {
+    await Bun.sleep(30);
+
+    expect(message.signal.aborted).toBe(false);
+  });
+
+  await Bun.sleep(10);
+  await consumer.waitIdle();
+
+  const [message] = await subscription.getMessages();
+  expect(message!.status).toBe('completed');
+});
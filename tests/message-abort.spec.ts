@@ -0,0 +1,259 @@
+import { expect, test } from 'bun:test';
+import { MessageCancelledError, type SubscriptionMessage } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit, newPgTransit } = createTestContext();
+
+function waitAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+    }
+
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+}
+
+test('Abort the message signal when the consumer is stopped', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  let abortReason: unknown;
+  const consumer = subscription.consume(async (message) => {
+    try {
+      await waitAbort(message.signal);
+    } catch (e) {
+      abortReason = e;
+      throw e;
+    }
+  });
+
+  await consumer.waitInit();
+  await Bun.sleep(10); // Be sure the message is picked up by the consumer
+
+  await consumer.stop();
+
+  expect(abortReason).toBeInstanceOf(Error);
+
+  // The interrupted message is put back to waiting without counting the attempt
+  const [message] = await subscription.getMessages();
+  expect(message!.status).toBe('waiting');
+  expect(message!.attempts).toBe(0);
+});
+
+test('A message completed despite the consumer stop is completed', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  const consumer = subscription.consume(async () => {
+    await Bun.sleep(20); // Ignore the signal
+  });
+
+  await consumer.waitInit();
+  await Bun.sleep(10); // Be sure the message is picked up by the consumer
+
+  await consumer.stop();
+
+  const [message] = await subscription.getMessages();
+  expect(message!.status).toBe('completed');
+});
+
+test('Abort the message signal when the message is reset as stale', async () => {
+  const transit = newPgTransit();
+
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  const processedMessages: SubscriptionMessage<any>[] = [];
+  let abortReason: unknown;
+  const consumer = subscription.consume(
+    async (message) => {
+      processedMessages.push(message);
+
+      if (processedMessages.length === 1) {
+        try {
+          await waitAbort(message.signal);
+        } catch (e) {
+          abortReason = e;
+          throw e;
+        }
+      }
+    },
+    { heartbeatIntervalInMs: 10 },
+  );
+
+  await consumer.waitInit();
+  await Bun.sleep(10); // Be sure the message is picked up by the consumer
+
+  transit.staleMessageTimeoutInMs = -1_000; // Consider the message stale right away
+  await transit.resetStaleMessages();
+
+  await Bun.sleep(50);
+  await consumer.waitIdle();
+
+  expect(abortReason).toBeInstanceOf(MessageCancelledError);
+
+  expect(processedMessages).toHaveLength(2);
+  expect(processedMessages[1]!.staleCount).toBe(1);
+
+  const [message] = await subscription.getMessages();
+  expect(message!.status).toBe('completed'); // Completed by the second processing only
+});
+
+test('Cancel a message being processed', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const sent = await topic.send('foo');
+
+  let abortReason: unknown;
+  const consumer = subscription.consume(async (message) => {
+    try {
+      await waitAbort(message.signal);
+    } catch (e) {
+      abortReason = e;
+      throw e;
+    }
+  });
+
+  const failedMessages: SubscriptionMessage<any>[] = [];
+  consumer.on('failed', (message) => failedMessages.push(message));
+
+  await consumer.waitInit();
+  await Bun.sleep(10); // Be sure the message is picked up by the consumer
+
+  const count = await subscription.cancel(sent.id);
+
+  expect(count).toBe(1);
+
+  await consumer.waitIdle();
+
+  expect(abortReason).toBeInstanceOf(MessageCancelledError);
+  expect(failedMessages).toHaveLength(0); // Not failed by the consumer, which no longer owns the message
+
+  const [message] = await subscription.getMessages();
+  expect(message!.status).toBe('failed');
+  expect(message!.errorStack).toContain('MessageCancelledError');
+});
+
+test('Cancel a waiting message', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const [sent1] = await topic.sendBulk(['foo', 'bar']);
+
+  await subscription.cancel(sent1!.id);
+
+  const consumed: string[] = [];
+  const consumer = subscription.consume((message) => {
+    consumed.push(message.data as string);
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(consumed).toEqual(['bar']);
+});
+
+test('Cancel a message processed by another process', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const sent = await topic.send('foo');
+
+  const [message] = await subscription.getNextMessages(1);
+
+  const otherTransit = newPgTransit();
+  const otherSubscription = otherTransit.topic(topic.name).subscribe(subscription.name);
+
+  await otherSubscription.cancel(sent.id);
+
+  expect(message!.signal.aborted).toBe(false);
+
+  await message!.heartbeat();
+
+  expect(message!.signal.aborted).toBe(true);
+  expect(message!.signal.reason).toBeInstanceOf(MessageCancelledError);
+});
+
+test('Do not settle a message reset as stale and delivered again', async () => {
+  const transit = newPgTransit();
+
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { consumptionMode: 'sequential' });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk(['foo', 'bar']);
+
+  const [staleMessage] = await subscription.getNextMessages(1);
+
+  transit.staleMessageTimeoutInMs = -1_000; // Consider the message stale right away
+  await transit.resetStaleMessages();
+
+  const [message] = await subscription.getNextMessages(1);
+  expect(message!.id).toBe(staleMessage!.id);
+
+  await staleMessage!.complete();
+  await staleMessage!.fail(new Error('Boom'));
+
+  expect(staleMessage!.status).toBe('processing');
+  expect(staleMessage!.signal.reason).toBeInstanceOf(MessageCancelledError);
+
+  const [row] = await subscription.getMessages();
+  expect(row!.status).toBe('processing');
+
+  // The subscription is still processing the message delivered again
+  expect(await subscription.getNextMessages(1)).toEqual([]);
+
+  await message!.complete();
+
+  expect((await subscription.getMessages('completed')).map((message) => message.id)).toEqual([message!.id]);
+});
+
+test('Do not settle a released message delivered again', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  const [releasedMessage] = await subscription.getNextMessages(1);
+  await releasedMessage!.release();
+
+  const [message] = await subscription.getNextMessages(1);
+  expect(message!.attempts).toBe(1); // The released attempt is delivered again
+
+  await releasedMessage!.fail(new Error('Boom'));
+
+  const [row] = await subscription.getMessages();
+  expect(row!.status).toBe('processing');
+  expect(row!.errorStack).toBeUndefined();
+});
@@ -0,0 +1,114 @@
+import { expect, test } from 'bun:test';
+import { extendedJsonCodec, type Codec, type PgTransit, type SubscriptionMessage } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit, newPgTransit } = createTestContext();
+
+type Invoice = {
+  issuedAt: Date;
+  amount: bigint;
+  lines: Map<string, number>;
+  tags: Set<string>;
+  pdf: Buffer;
+};
+
+const invoice: Invoice = {
+  issuedAt: new Date('2025-01-01T00:00:00.000Z'),
+  amount: 12345678901234567890n,
+  lines: new Map([['item', 2]]),
+  tags: new Set(['urgent']),
+  pdf: Buffer.from('pdf'),
+};
+
+test('Extended JSON codec preserves non JSON values', () => {
+  const value = {
+    ...invoice,
+    nested: [{ date: new Date(0), missing: undefined, notANumber: NaN, infinity: -Infinity }],
+    plain: { foo: 'bar', count: 1, ok: true, nothing: null },
+    lookalike: { $date: 'not a date' },
+  };
+
+  const encoded = extendedJsonCodec.encode(value);
+
+  expect(JSON.parse(JSON.stringify(encoded))).toEqual(encoded as any);
+  expect((encoded as any).plain).toEqual({ foo: 'bar', count: 1, ok: true, nothing: null }); // Plain JSON keeps its shape
+
+  expect(extendedJsonCodec.decode(JSON.parse(JSON.stringify(encoded)))).toEqual(value);
+});
+
+test('Send and consume messages with a topic codec', async () => {
+  const topic = transit.topic<Invoice>(randomName('topic'), { codec: extendedJsonCodec });
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const message = await topic.send(invoice);
+  expect(message.data).toEqual(invoice);
+
+  const [topicMessage] = await topic.getMessages();
+  expect(topicMessage!.data).toEqual(invoice);
+
+  let consumed!: SubscriptionMessage<Invoice>;
+  const consumer = subscription.consume((message) => {
+    consumed = message;
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(consumed.data.issuedAt).toBeInstanceOf(Date);
+  expect(consumed.data).toEqual(invoice);
+});
+
+test('Topics use the PgTransit codec by default', async () => {
+  const codecTransit = newPgTransit({ codec: extendedJsonCodec }) as PgTransit<unknown>;
+
+  const topic = codecTransit.topic<{ amount: bigint }>(randomName('topic'));
+
+  expect(topic.codec).toBe(extendedJsonCodec);
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([{ amount: 1n }, { amount: 2n }]);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.data)).toEqual([{ amount: 1n }, { amount: 2n }]);
+});
+
+test('Use a custom codec', async () => {
+  const upperCaseCodec: Codec = {
+    encode: (value) => (value as string).toUpperCase(),
+    decode: (value) => (value as string).toLowerCase(),
+  };
+
+  const topicName = randomName('topic');
+  const topic = transit.topic<string>(topicName, { codec: upperCaseCodec });
+  const rawTopic = transit.topic<string>(topicName);
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  const [rawMessage] = await rawTopic.getMessages();
+  expect(rawMessage!.data).toBe('FOO');
+
+  const [message] = await subscription.getMessages();
+  expect(message!.data).toBe('foo');
+});
+
+test('Scheduled messages are encoded with the topic codec', async () => {
+  const topic = transit.topic<Invoice>(randomName('topic'), { codec: extendedJsonCodec });
+
+  await topic.waitInit();
+
+  const scheduledMessage = await topic.schedule('my-message', { cron: '* * * * *' }, invoice);
+  expect(scheduledMessage.data).toEqual(invoice);
+
+  const [stored] = await topic.getScheduledMessages();
+  expect(stored!.data).toEqual(invoice);
+});
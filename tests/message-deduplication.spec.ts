@@ -0,0 +1,101 @@
+import { expect, setSystemTime, test } from 'bun:test';
+import type { JSONValue } from 'postgres';
+import type { Message } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+test('Sending a message with an already used deduplication key returns the existing message', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const sent: Message<JSONValue>[] = [];
+  topic.on('send', (message) => {
+    sent.push(message);
+  });
+
+  const message1 = await topic.send({ foo: 'bar' }, { deduplicationKey: 'order-1' });
+  const message2 = await topic.send({ foo: 'bar' }, { deduplicationKey: 'order-1' });
+
+  expect(message1.deduplicationKey).toBe('order-1');
+  expect(message2.id).toBe(message1.id);
+  expect(sent).toHaveLength(1);
+
+  expect(await topic.getMessages()).toHaveLength(1);
+  expect(await subscription.getMessages()).toHaveLength(1);
+});
+
+test('Deduplication keys are scoped to the topic', async () => {
+  const topic1 = transit.topic(randomName('topic'));
+  const topic2 = transit.topic(randomName('topic'));
+
+  const message1 = await topic1.send({ foo: 'bar' }, { deduplicationKey: 'order-1' });
+  const message2 = await topic2.send({ foo: 'bar' }, { deduplicationKey: 'order-1' });
+
+  expect(message2.id).not.toBe(message1.id);
+});
+
+test('Deduplicate messages sent in bulk', async () => {
+  const topic = transit.topic<{ orderId: number }>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const existing = await topic.send({ orderId: 1 }, { deduplicationKey: 'order-1' });
+
+  const messages = await topic.sendBulk([{ orderId: 1 }, { orderId: 2 }, { orderId: 2 }, { orderId: 3 }], {
+    deduplicationKey: (data) => `order-${data.orderId}`,
+  });
+
+  expect(messages).toHaveLength(4);
+  expect(messages[0]!.id).toBe(existing.id);
+  expect(messages[2]!.id).toBe(messages[1]!.id);
+  expect(messages.map((message) => message.data)).toEqual([
+    { orderId: 1 },
+    { orderId: 2 },
+    { orderId: 2 },
+    { orderId: 3 },
+  ]);
+
+  expect(await topic.getMessages()).toHaveLength(3);
+  expect(await subscription.getMessages()).toHaveLength(3);
+});
+
+test('Deduplication key is released once the deduplication window is over', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  await topic.waitInit();
+
+  const message1 = await topic.send({ foo: 'bar' }, { deduplicationKey: 'order-1', deduplicationWindowInMs: 10_000 });
+
+  setSystemTime(new Date(Date.now() + 5_000));
+
+  const message2 = await topic.send({ foo: 'bar' }, { deduplicationKey: 'order-1', deduplicationWindowInMs: 10_000 });
+  expect(message2.id).toBe(message1.id);
+
+  setSystemTime(new Date(Date.now() + 5_000));
+
+  const message3 = await topic.send({ foo: 'bar' }, { deduplicationKey: 'order-1', deduplicationWindowInMs: 10_000 });
+  expect(message3.id).not.toBe(message1.id);
+
+  expect(await topic.getMessages()).toHaveLength(2);
+
+  setSystemTime();
+});
+
+test('Concurrent sends with the same deduplication key insert a single message', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  await topic.waitInit();
+
+  const messages = await Promise.all(
+    Array.from({ length: 5 }, () => topic.send({ foo: 'bar' }, { deduplicationKey: 'order-1' })),
+  );
+
+  expect(new Set(messages.map((message) => message.id)).size).toBe(1);
+  expect(await topic.getMessages()).toHaveLength(1);
+});
@@ -126,3 +126,26 @@ test('Manually retry failed message', async () => {
   failedMessages = await subscription.getMessages('failed');
   expect(failedMessages).toHaveLength(0);
 });
+
+test('Retrying a failed message clears its finish date', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send({ foo: 'bar' });
+
+  const [message] = await subscription.getNextMessages(1);
+  await message!.fail(new Error('Error'));
+
+  const [failed] = await subscription.getMessages('failed');
+  expect(failed!.finishedAt).toBeInstanceOf(Date);
+
+  await failed!.retry();
+  expect(failed!.finishedAt).toBeUndefined();
+
+  const [retried] = await subscription.getMessages();
+  expect(retried!.status).toBe('waiting');
+  expect(retried!.finishedAt).toBeUndefined();
+});
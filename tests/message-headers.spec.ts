@@ -0,0 +1,89 @@
+import { expect, test } from 'bun:test';
+import type { JSONValue } from 'postgres';
+import type { SubscriptionMessage } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+test('Send a message with headers', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const message = await topic.send({ foo: 'bar' }, { headers: { traceId: '123', tenantId: 'acme' } });
+
+  expect(message.headers).toEqual({ traceId: '123', tenantId: 'acme' });
+
+  let consumed!: SubscriptionMessage<JSONValue>;
+  const consumer = subscription.consume((message) => {
+    consumed = message;
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(consumed.data).toEqual({ foo: 'bar' });
+  expect(consumed.headers).toEqual({ traceId: '123', tenantId: 'acme' });
+});
+
+test('Headers are empty by default', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const message = await topic.send({ foo: 'bar' });
+
+  expect(message.headers).toEqual({});
+
+  const [topicMessage] = await topic.getMessages();
+  expect(topicMessage!.headers).toEqual({});
+
+  const [subscriptionMessage] = await subscription.getMessages();
+  expect(subscriptionMessage!.headers).toEqual({});
+});
+
+test('Query messages by headers', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const message1 = await topic.send({ foo: 'bar' }, { headers: { tenantId: 'acme', producer: 'billing' } });
+  await topic.send({ bar: 'baz' }, { headers: { tenantId: 'globex' } });
+
+  const topicMessages = await topic.getMessages({ headers: { tenantId: 'acme' } });
+  expect(topicMessages).toHaveLength(1);
+  expect(topicMessages[0]!.id).toBe(message1.id);
+
+  const subscriptionMessages = await subscription.getMessages({ statuses: ['waiting'], headers: { tenantId: 'acme' } });
+  expect(subscriptionMessages).toHaveLength(1);
+  expect(subscriptionMessages[0]!.id).toBe(message1.id);
+
+  expect(await subscription.getMessages({ statuses: ['completed'], headers: { tenantId: 'acme' } })).toHaveLength(0);
+  expect(await subscription.getMessages({ headers: { tenantId: 'initech' } })).toHaveLength(0);
+});
+
+test('Scheduled messages keep their headers', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const scheduledMessage = await topic.schedule(
+    'my-message',
+    { cron: '* * * * *' },
+    { foo: 'bar' },
+    { headers: { producer: 'cron' } },
+  );
+
+  expect(scheduledMessage.headers).toEqual({ producer: 'cron' });
+
+  const [stored] = await topic.getScheduledMessages();
+  expect(stored!.headers).toEqual({ producer: 'cron' });
+});
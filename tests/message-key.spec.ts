@@ -0,0 +1,132 @@
+import { expect, test } from 'bun:test';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+test('Send a message with a key', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const message = await topic.send({ foo: 'bar' }, { key: 'order-1' });
+
+  expect(message.key).toBe('order-1');
+
+  const [topicMessage] = await topic.getMessages();
+  expect(topicMessage!.key).toBe('order-1');
+
+  const [subscriptionMessage] = await subscription.getMessages();
+  expect(subscriptionMessage!.key).toBe('order-1');
+});
+
+test('On parallel subscriptions, messages sharing a key are not handed out while an earlier one is waiting or processing', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  const [message1, message2, message3, message4] = await topic.sendBulk([
+    { foo: 1 },
+    { foo: 2 },
+    { foo: 3 },
+    { foo: 4 },
+  ]);
+
+  const keyed = await topic.sendBulk([{ step: 1 }, { step: 2 }], { key: 'order-1' });
+  const [keyed3] = await topic.sendBulk([{ step: 1 }], { key: 'order-2' });
+
+  const firstBatch = await subscription.getNextMessages(10);
+
+  // Unkeyed messages are all handed out, keyed messages only one per key
+  expect(firstBatch.map((m) => m.id)).toEqual([
+    message1!.id,
+    message2!.id,
+    message3!.id,
+    message4!.id,
+    keyed[0]!.id,
+    keyed3!.id,
+  ]);
+
+  expect(await subscription.getNextMessages(10)).toHaveLength(0); // Second message of order-1 waits for the first one
+
+  await firstBatch[4]!.complete();
+
+  const secondBatch = await subscription.getNextMessages(10);
+  expect(secondBatch.map((m) => m.id)).toEqual([keyed[1]!.id]);
+});
+
+test('A message waiting for a retry blocks next messages sharing its key', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+    maxAttempts: 2,
+    retryDelayInMs: 10_000,
+  });
+
+  await subscription.waitInit();
+
+  const [message1, message2] = await topic.sendBulk([{ step: 1 }, { step: 2 }], { key: 'order-1' });
+  const message3 = await topic.send({ step: 1 }, { key: 'order-2' });
+
+  const [first, other] = await subscription.getNextMessages(10);
+  expect(first!.id).toBe(message1!.id);
+  expect(other!.id).toBe(message3.id);
+
+  await first!.fail(new Error('Error'));
+
+  expect(await subscription.getNextMessages(10)).toHaveLength(0);
+
+  await first!.retry();
+
+  const [retried] = await subscription.getNextMessages(10);
+  expect(retried!.id).toBe(message1!.id);
+
+  await retried!.fail(new Error('Error')); // Finally failed, no longer blocks the key
+
+  const [next] = await subscription.getNextMessages(10);
+  expect(next!.id).toBe(message2!.id);
+});
+
+test('Keys are ignored on sequential subscriptions', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([{ step: 1 }, { step: 2 }], { key: 'order-1' });
+
+  const consumed: unknown[] = [];
+  const consumer = subscription.consume((message) => {
+    consumed.push(message.data);
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(consumed).toEqual([{ step: 1 }, { step: 2 }]);
+});
+
+test('Scheduled messages keep their key', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  await topic.waitInit();
+
+  const scheduledMessage = await topic.schedule(
+    'my-message',
+    { cron: '* * * * *' },
+    { foo: 'bar' },
+    { key: 'order-1' },
+  );
+
+  expect(scheduledMessage.key).toBe('order-1');
+
+  const [stored] = await topic.getScheduledMessages();
+  expect(stored!.key).toBe('order-1');
+});
@@ -87,6 +87,7 @@ test('Keep a fixed number of acknowledged messages in the topic', async () => {
 
   await consumer.waitInit();
   await consumer.waitIdle();
+  await consumer.stop();
 
   const message3 = await topic.send({ baz: 'qux' }); // Unacknowledged message, not trimmed
 
@@ -125,6 +126,91 @@ test('Infinite retention of acknowledged messages', async () => {
   expect(subscriptionMessages.length).toBe(1);
 });
 
+test('Keep acknowledged messages up to a maximum age', async () => {
+  const topic = transit.topic(randomName('topic'), {
+    maxMessageAgeInMs: 100,
+  });
+
+  expect(topic.maxMessagesRetention).toBe(Infinity); // Only limited by age
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const consumer = subscription.consume(() => {
+    // no-op
+  });
+
+  await consumer.waitInit();
+
+  await topic.send({ foo: 'bar' }); // Expired acknowledged message, trimmed
+  await Bun.sleep(50);
+  await consumer.waitIdle();
+
+  await Bun.sleep(100);
+
+  const message2 = await topic.send({ bar: 'baz' }); // Recent acknowledged message, not trimmed
+  await Bun.sleep(50);
+  await consumer.waitIdle();
+  await consumer.stop();
+
+  const trimmedCount = await topic.trim();
+
+  expect(trimmedCount).toBe(1);
+
+  const messages = await topic.getMessages();
+  expect(messages.map((message) => message.id)).toEqual([message2.id]);
+});
+
+test('Never remove unacknowledged messages, whatever their age', async () => {
+  const topic = transit.topic(randomName('topic'), {
+    maxMessageAgeInMs: 1,
+  });
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send({ foo: 'bar' });
+
+  await Bun.sleep(10);
+
+  const trimmedCount = await topic.trim();
+
+  expect(trimmedCount).toBe(0);
+
+  const messages = await topic.getMessages();
+  expect(messages.length).toBe(1);
+});
+
+test('Combine maximum age and maximum number of acknowledged messages', async () => {
+  const topic = transit.topic(randomName('topic'), {
+    maxMessagesRetention: 1,
+    maxMessageAgeInMs: 60 * 60 * 1000,
+  });
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([{ foo: 'bar' }, { bar: 'baz' }, { baz: 'qux' }]);
+
+  const consumer = subscription.consume(() => {
+    // no-op
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+  await consumer.stop();
+
+  const trimmedCount = await topic.trim();
+
+  expect(trimmedCount).toBe(2); // Removed by count, even though not expired
+
+  const messages = await topic.getMessages();
+  expect(messages.map((message) => message.data)).toEqual([{ baz: 'qux' }]);
+});
+
 test('Auto trim topics each 1 minutes by default', async () => {
   expect(transit.trimTopicsIntervalInMs).toBe(60_000);
 });
@@ -0,0 +1,136 @@
+import { expect, test } from 'bun:test';
+import { ValidationError, type StandardSchemaV1 } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+type Order = { orderId: string; amount: number };
+
+const orderSchema: StandardSchemaV1<unknown, Order> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      const order = value as Order;
+
+      if (typeof order?.orderId !== 'string' || typeof order?.amount !== 'number') {
+        return { issues: [{ message: 'Expected an order' }] };
+      }
+
+      return { value: { orderId: order.orderId, amount: order.amount } };
+    },
+  },
+};
+
+test('Topic data type is inferred from the schema', async () => {
+  const topic = transit.topic(randomName('topic'), { schema: orderSchema });
+
+  const message = await topic.send({ orderId: '1', amount: 100 });
+
+  const order: Order = message.data;
+  expect(order).toEqual({ orderId: '1', amount: 100 });
+});
+
+test('Sending invalid data throws a validation error and does not insert anything', async () => {
+  const topic = transit.topic(randomName('topic'), { schema: orderSchema });
+
+  const error = await topic.send({ orderId: 1 } as any).catch((e) => e);
+
+  expect(error).toBeInstanceOf(ValidationError);
+  expect(error.issues).toEqual([{ message: 'Expected an order' }]);
+
+  const bulkError = await topic.sendBulk([{ orderId: '1', amount: 100 }, { amount: 100 } as any]).catch((e) => e);
+
+  expect(bulkError).toBeInstanceOf(ValidationError);
+
+  const scheduleError = await topic.schedule('my-message', { cron: '* * * * *' }, {} as any).catch((e) => e);
+
+  expect(scheduleError).toBeInstanceOf(ValidationError);
+
+  expect(await topic.getMessages()).toHaveLength(0);
+  expect(await topic.getScheduledMessages()).toHaveLength(0);
+});
+
+test('Sent data is the schema output', async () => {
+  const topic = transit.topic(randomName('topic'), { schema: orderSchema });
+
+  const message = await topic.send({ orderId: '1', amount: 100, extra: true } as Order);
+
+  expect(message.data).toEqual({ orderId: '1', amount: 100 });
+});
+
+test('Consumers can validate messages before handling them', async () => {
+  const topicName = randomName('topic');
+
+  const unvalidatedTopic = transit.topic(topicName);
+  const topic = transit.topic(topicName, { schema: orderSchema });
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  await unvalidatedTopic.send({ foo: 'bar' }); // Sent by a producer not validating messages
+  await topic.send({ orderId: '1', amount: 100 });
+
+  const handled: Order[] = [];
+  const errors: Error[] = [];
+  const consumer = subscription.consume(
+    (message) => {
+      handled.push(message.data);
+    },
+    {
+      validate: true,
+    },
+  );
+
+  consumer.on('failed', (_, error) => {
+    errors.push(error);
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(handled).toEqual([{ orderId: '1', amount: 100 }]);
+  expect(errors).toHaveLength(1);
+  expect(errors[0]).toBeInstanceOf(ValidationError);
+
+  const [failed] = await subscription.getMessages('failed');
+  expect(failed!.data as unknown).toEqual({ foo: 'bar' });
+  expect(failed!.errorStack).toContain('ValidationError');
+});
+
+test('Consumers handle the schema output of validated messages', async () => {
+  const topicName = randomName('topic');
+
+  const unvalidatedTopic = transit.topic(topicName);
+  const topic = transit.topic(topicName, {
+    schema: {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => ({ value: { currency: 'EUR', ...(value as Order) } }),
+      },
+    } satisfies StandardSchemaV1<unknown, Order & { currency: string }>,
+  });
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await unvalidatedTopic.send({ orderId: '1', amount: 100 }); // Sent without the default currency
+
+  const handled: (Order & { currency: string })[] = [];
+  const consumer = subscription.consume(
+    (message) => {
+      handled.push(message.data);
+    },
+    { validate: true },
+  );
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  expect(handled).toEqual([{ orderId: '1', amount: 100, currency: 'EUR' }]);
+});
@@ -0,0 +1,103 @@
+import { expect, test } from 'bun:test';
+import { Metrics } from '../src/metrics';
+import { createTestContext, randomName } from './utils';
+
+const { newPgTransit } = createTestContext();
+
+test('Record sent and processed messages', async () => {
+  const transit = newPgTransit();
+
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+
+  const topic = transit.topic(topicName);
+
+  const subscription = topic.subscribe(subscriptionName, { consumptionMode: 'parallel' });
+
+  await subscription.waitInit();
+
+  const consumer = subscription.consume(
+    (message) => {
+      if (message.data === 'bar') {
+        throw new Error('Failed');
+      }
+    },
+    { autostart: false },
+  );
+
+  const metrics = new Metrics(transit).observeTopic(topic).observeConsumer(consumer);
+
+  await topic.sendBulk(['foo', 'bar', 'baz']);
+
+  consumer.start();
+  await Bun.sleep(10);
+  await consumer.waitIdle();
+
+  const output = await metrics.render();
+
+  const labels = `topic="${topicName}",subscription="${subscriptionName}"`;
+
+  expect(output).toContain('# TYPE pg_transit_messages_sent_total counter');
+  expect(output).toContain(`pg_transit_messages_sent_total{topic="${topicName}"} 3`);
+  expect(output).toContain(`pg_transit_messages_processed_total{${labels},status="completed"} 2`);
+  expect(output).toContain(`pg_transit_messages_processed_total{${labels},status="failed"} 1`);
+
+  expect(output).toContain('# TYPE pg_transit_message_processing_duration_seconds histogram');
+  expect(output).toContain(`pg_transit_message_processing_duration_seconds_bucket{${labels},le="+Inf"} 3`);
+  expect(output).toContain(`pg_transit_message_processing_duration_seconds_count{${labels}} 3`);
+});
+
+test('Read subscription gauges from the database', async () => {
+  const transit = newPgTransit();
+
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+
+  const topic = transit.topic(topicName);
+
+  const subscription = topic.subscribe(subscriptionName);
+
+  await subscription.waitInit();
+
+  await topic.sendBulk(['foo', 'bar']);
+  await topic.send('baz', { deliverInMs: 60_000 });
+
+  const metrics = new Metrics(transit, { prefix: 'app_' });
+
+  const output = await metrics.render();
+
+  const labels = `topic="${topicName}",subscription="${subscriptionName}"`;
+
+  expect(output).toContain('# TYPE app_subscription_messages gauge');
+  expect(output).toContain(`app_subscription_messages{${labels},status="waiting"} 3`);
+  expect(output).toContain(`app_subscription_messages{${labels},status="processing"} 0`);
+  expect(output).toContain(`app_subscription_delayed_messages{${labels}} 1`);
+  expect(output).toMatch(
+    new RegExp(`app_subscription_oldest_waiting_message_age_seconds\\{${labels}\\} \\d+(\\.\\d+)?(e-\\d+)?\\n`),
+  );
+});
+
+test('Record stale message resets', async () => {
+  const transit = newPgTransit({ staleMessageTimeoutInMs: 0 });
+
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+
+  const topic = transit.topic(topicName);
+
+  const subscription = topic.subscribe(subscriptionName);
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  const metrics = new Metrics(transit);
+
+  await subscription.getNextMessages(1);
+
+  await transit.resetStaleMessages();
+
+  expect(await metrics.render()).toContain(
+    `pg_transit_stale_messages_total{topic="${topicName}",subscription="${subscriptionName}"} 1`,
+  );
+});
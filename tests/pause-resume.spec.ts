@@ -0,0 +1,110 @@
+import { expect, test } from 'bun:test';
+import { createTestContext, randomName } from './utils';
+
+const { transit, newPgTransit } = createTestContext();
+
+test('Pause and resume a subscription across all processes', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const events: string[] = [];
+  subscription.on('paused', () => events.push('paused'));
+  subscription.on('resumed', () => events.push('resumed'));
+
+  await subscription.pause();
+
+  expect(subscription.isPaused).toBe(true);
+
+  // Another process consuming the same subscription
+  const otherTransit = newPgTransit();
+  const otherSubscription = otherTransit.topic<number>(topic.name).subscribe(subscription.name);
+
+  await otherSubscription.waitInit();
+
+  expect(otherSubscription.isPaused).toBe(true);
+
+  const consumed: number[] = [];
+  const consumer = otherSubscription.consume((message) => {
+    consumed.push(message.data);
+  });
+
+  await consumer.waitInit();
+
+  await topic.send(1); // Producers keep sending
+
+  await Bun.sleep(50);
+  await consumer.waitIdle();
+
+  expect(consumed).toEqual([]);
+
+  await subscription.resume();
+
+  expect(subscription.isPaused).toBe(false);
+
+  await Bun.sleep(50);
+  await consumer.waitIdle();
+
+  expect(consumed).toEqual([1]);
+  expect(events).toEqual(['paused', 'resumed']);
+});
+
+test('Pause and resume all subscriptions of a topic', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription1 = topic.subscribe(randomName('subscription'));
+  const subscription2 = topic.subscribe(randomName('subscription'));
+
+  await Promise.all([subscription1.waitInit(), subscription2.waitInit()]);
+
+  const events: string[] = [];
+  topic.on('paused', () => events.push('paused'));
+  topic.on('resumed', () => events.push('resumed'));
+
+  await topic.pause();
+
+  expect(topic.isPaused).toBe(true);
+  expect(subscription1.isPaused).toBe(true);
+  expect(subscription2.isPaused).toBe(true);
+
+  await topic.sendBulk([1, 2]);
+
+  expect(await subscription1.getNextMessages(1)).toEqual([]);
+  expect(await subscription2.getNextMessages(1)).toEqual([]);
+
+  const sameTopic = transit.topic<number>(topic.name);
+  await sameTopic.waitInit();
+  expect(sameTopic.isPaused).toBe(true);
+
+  await topic.resume();
+
+  expect(topic.isPaused).toBe(false);
+
+  const [message1] = await subscription1.getNextMessages(1);
+  expect(message1!.data).toBe(1);
+
+  const [message2] = await subscription2.getNextMessages(1);
+  expect(message2!.data).toBe(1);
+
+  expect(events).toEqual(['paused', 'resumed']);
+});
+
+test('Resuming a topic keeps its paused subscriptions paused', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await subscription.pause();
+  await topic.pause();
+  await topic.resume();
+
+  expect(subscription.isPaused).toBe(true);
+
+  await topic.send(1);
+
+  expect(await subscription.getNextMessages(1)).toEqual([]);
+});
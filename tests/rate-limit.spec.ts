@@ -0,0 +1,130 @@
+import { expect, test } from 'bun:test';
+import { RateLimitError } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+test('The rate limit is shared by all consumers of a subscription', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscriptionName = randomName('subscription');
+  const options = { consumptionMode: 'parallel', rateLimit: { max: 2, durationInMs: 60_000 } } as const;
+
+  const subscription1 = topic.subscribe(subscriptionName, options);
+  const subscription2 = transit.topic<number>(topic.name).subscribe(subscriptionName, options);
+
+  await Promise.all([subscription1.waitInit(), subscription2.waitInit()]);
+
+  await topic.sendBulk([1, 2, 3, 4, 5]);
+
+  const consumedMessages: number[] = [];
+
+  const consumer1 = subscription1.consume((message) => void consumedMessages.push(message.data), { concurrency: 5 });
+  const consumer2 = subscription2.consume((message) => void consumedMessages.push(message.data), { concurrency: 5 });
+
+  await Promise.all([consumer1.waitInit(), consumer2.waitInit()]);
+  await Promise.all([consumer1.waitIdle(), consumer2.waitIdle()]);
+
+  expect(consumedMessages).toHaveLength(2);
+
+  const waitingMessages = await subscription1.getMessages('waiting');
+  expect(waitingMessages).toHaveLength(3);
+});
+
+test('Rate limit tokens are refilled over time', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+    rateLimit: { max: 2, durationInMs: 200 },
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2, 3, 4]);
+
+  const consumedMessages: number[] = [];
+
+  const consumer = subscription.consume((message) => void consumedMessages.push(message.data), {
+    concurrency: 4,
+    autostart: false,
+  });
+
+  await consumer.waitInit();
+
+  await consumer.consume();
+  expect(consumedMessages).toEqual([1, 2]);
+
+  await Bun.sleep(250);
+
+  await consumer.consume();
+  expect(consumedMessages).toEqual([1, 2, 3, 4]);
+});
+
+test('Throwing a rate limit error throttles the subscription and puts the message back to waiting', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  await topic.send(1);
+
+  let calls = 0;
+
+  const consumer = subscription.consume(
+    () => {
+      calls++;
+
+      if (calls === 1) {
+        throw new RateLimitError(200);
+      }
+    },
+    { autostart: false },
+  );
+
+  await consumer.waitInit();
+
+  await consumer.consume();
+
+  const [releasedMessage] = await subscription.getMessages();
+  expect(releasedMessage!.status).toBe('waiting');
+  expect(releasedMessage!.attempts).toBe(0);
+
+  expect(await subscription.getNextMessages(1)).toEqual([]); // Throttled
+
+  await Bun.sleep(250);
+
+  await consumer.consume();
+
+  const [completedMessage] = await subscription.getMessages();
+  expect(completedMessage!.status).toBe('completed');
+  expect(completedMessage!.attempts).toBe(1);
+  expect(calls).toBe(2);
+});
+
+test('Throttling a subscription with a rate limit empties the token bucket', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+    rateLimit: { max: 10, durationInMs: 1000 },
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2, 3]);
+
+  await subscription.throttle(50);
+
+  await Bun.sleep(75);
+
+  expect(await subscription.getNextMessages(3)).toEqual([]); // Not refilled enough yet at 10 messages per second
+
+  await Bun.sleep(100);
+
+  const messages = await subscription.getNextMessages(3);
+  expect(messages.map((message) => message.data)).toEqual([1]);
+});
@@ -0,0 +1,134 @@
+import { expect, test } from 'bun:test';
+import { createTestContext, randomName } from './utils';
+
+const { transit, newPgTransit } = createTestContext();
+
+test('Get subscription stats', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { consumptionMode: 'parallel', maxAttempts: 2 });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk(['foo', 'bar', 'baz', 'qux']);
+  await topic.send('delayed', { deliverInMs: 60_000 });
+
+  const [completed, failed, retried] = await subscription.getNextMessages(3);
+
+  await completed!.complete();
+
+  await failed!.fail(new Error('Failed'));
+  const [failedAgain] = await subscription.getNextMessages(1);
+  expect(failedAgain!.id).toBe(failed!.id);
+  await failedAgain!.fail(new Error('Failed again'));
+
+  await retried!.fail(new Error('Failed'));
+
+  await Bun.sleep(20);
+
+  const stats = await subscription.getStats();
+
+  expect(stats.counts).toEqual({ waiting: 3, processing: 0, completed: 1, failed: 1 });
+  expect(stats.delayed).toBe(1);
+  expect(stats.retries).toBe(1);
+  expect(stats.processingRate).toBeCloseTo(2 / 60);
+
+  // The oldest available waiting message is the retried one, sent first
+  expect(stats.oldestWaitingMessageAgeInMs).toBeGreaterThanOrEqual(20);
+});
+
+test('Get empty subscription stats', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const stats = await subscription.getStats();
+
+  expect(stats).toEqual({
+    counts: { waiting: 0, processing: 0, completed: 0, failed: 0 },
+    delayed: 0,
+    oldestWaitingMessageAgeInMs: undefined,
+    processingRate: 0,
+    retries: 0,
+  });
+});
+
+test('Compute the processing rate over the given window', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { consumptionMode: 'parallel' });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk(['foo', 'bar']);
+
+  const messages = await subscription.getNextMessages(2);
+  await Promise.all(messages.map((message) => message.complete()));
+
+  expect((await subscription.getStats({ windowInMs: 1000 })).processingRate).toBe(2);
+
+  await Bun.sleep(30);
+
+  expect((await subscription.getStats({ windowInMs: 20 })).processingRate).toBe(0);
+});
+
+test('Aggregate stats across topic subscriptions', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription1Name = randomName('subscription');
+  const subscription2Name = randomName('subscription');
+
+  const subscription1 = topic.subscribe(subscription1Name);
+  const subscription2 = topic.subscribe(subscription2Name);
+
+  await Promise.all([subscription1.waitInit(), subscription2.waitInit()]);
+
+  await topic.send('foo');
+  await Bun.sleep(20);
+  await topic.send('bar');
+
+  const [message] = await subscription2.getNextMessages(1);
+  await message!.complete();
+
+  const stats = await topic.getStats();
+
+  expect(stats.counts).toEqual({ waiting: 3, processing: 0, completed: 1, failed: 0 });
+  expect(Object.keys(stats.subscriptions).sort()).toEqual([subscription1Name, subscription2Name].sort());
+  expect(stats.subscriptions[subscription1Name]!.counts.waiting).toBe(2);
+  expect(stats.subscriptions[subscription2Name]!.counts.waiting).toBe(1);
+
+  // The most lagging subscription gives the topic lag
+  expect(stats.oldestWaitingMessageAgeInMs).toBe(
+    Math.max(
+      stats.subscriptions[subscription1Name]!.oldestWaitingMessageAgeInMs!,
+      stats.subscriptions[subscription2Name]!.oldestWaitingMessageAgeInMs!,
+    ),
+  );
+  expect(stats.subscriptions[subscription1Name]!.oldestWaitingMessageAgeInMs).toBeGreaterThan(
+    stats.subscriptions[subscription2Name]!.oldestWaitingMessageAgeInMs!,
+  );
+});
+
+test('Aggregate stats across all topics', async () => {
+  const transit = newPgTransit();
+
+  const topic1Name = randomName('topic');
+  const topic2Name = randomName('topic');
+
+  const topic1 = transit.topic(topic1Name);
+  const topic2 = transit.topic(topic2Name);
+
+  const subscription = topic1.subscribe(randomName('subscription'));
+
+  await Promise.all([subscription.waitInit(), topic2.waitInit()]);
+
+  await topic1.send('foo');
+
+  const stats = await transit.getStats();
+
+  expect(stats.topics[topic1Name]!.counts.waiting).toBe(1);
+  expect(stats.topics[topic2Name]!.subscriptions).toEqual({});
+  expect(stats.counts.waiting).toBeGreaterThanOrEqual(1);
+});
@@ -0,0 +1,133 @@
+import { expect, test } from 'bun:test';
+import { createTestContext, randomName } from './utils';
+
+const { transit, newPgTransit } = createTestContext();
+
+test('Remove completed messages of a subscription', async () => {
+  const topic = transit.topic<number>(randomName('topic'), {
+    maxMessagesRetention: Infinity,
+  });
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    removeOnComplete: true,
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2]);
+
+  const consumer = subscription.consume(() => {
+    // no-op
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+  await consumer.stop();
+
+  await topic.send(3); // Waiting message, not removed
+
+  const removedCount = await transit.cleanupSubscriptions();
+
+  expect(removedCount).toBe(2);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.data)).toEqual([3]);
+
+  const topicMessages = await topic.getMessages();
+  expect(topicMessages).toHaveLength(3); // Topic retention is independent
+});
+
+test('Keep a fixed number of completed messages', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    removeOnComplete: 2,
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2, 3, 4]);
+
+  const consumer = subscription.consume(() => {
+    // no-op
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+  await consumer.stop();
+
+  await transit.cleanupSubscriptions();
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.data)).toEqual([3, 4]);
+});
+
+test('Remove failed messages older than a given age', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    removeOnFail: { ageInMs: 100 },
+  });
+
+  await subscription.waitInit();
+
+  await topic.send(1);
+
+  const consumer = subscription.consume(() => {
+    throw new Error('Failed');
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+  await consumer.stop();
+
+  await transit.cleanupSubscriptions();
+
+  expect(await subscription.getMessages('failed')).toHaveLength(1); // Not old enough
+
+  await Bun.sleep(150);
+
+  await transit.cleanupSubscriptions();
+
+  expect(await subscription.getMessages('failed')).toHaveLength(0);
+});
+
+test('Completed messages are kept when only failed messages are removed', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+    removeOnFail: true,
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2]);
+
+  const consumer = subscription.consume((message) => {
+    if (message.data === 2) {
+      throw new Error('Failed');
+    }
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+  await consumer.stop();
+
+  await transit.cleanupSubscriptions();
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => [message.data, message.status])).toEqual([[1, 'completed']]);
+});
+
+test('Cleanup subscriptions each 1 minute by default', async () => {
+  expect(transit.cleanupSubscriptionsIntervalInMs).toBe(60_000);
+});
+
+test('Configure custom cleanup subscriptions interval', async () => {
+  const transit = newPgTransit({
+    cleanupSubscriptionsIntervalInMs: 10_000,
+  });
+
+  expect(transit.cleanupSubscriptionsIntervalInMs).toBe(10_000);
+});
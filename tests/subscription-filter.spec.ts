@@ -0,0 +1,139 @@
+import { expect, test } from 'bun:test';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+test('Only deliver messages whose data contains the filter data', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const paidSubscription = topic.subscribe(randomName('subscription'), {
+    filter: { data: { status: 'paid' } },
+  });
+  const allSubscription = topic.subscribe(randomName('subscription'));
+
+  await Promise.all([paidSubscription.waitInit(), allSubscription.waitInit()]);
+
+  const [paid] = await topic.sendBulk([
+    { orderId: 1, status: 'paid' },
+    { orderId: 2, status: 'cancelled' },
+  ]);
+
+  const paidMessages = await paidSubscription.getMessages();
+  expect(paidMessages).toHaveLength(1);
+  expect(paidMessages[0]!.id).toBe(paid!.id);
+
+  expect(await allSubscription.getMessages()).toHaveLength(2);
+});
+
+test('Only deliver messages whose headers contain the filter headers', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    filter: { headers: { tenantId: 'acme' } },
+  });
+
+  await subscription.waitInit();
+
+  const message = await topic.send({ foo: 'bar' }, { headers: { tenantId: 'acme', producer: 'billing' } });
+  await topic.send({ foo: 'bar' }, { headers: { tenantId: 'globex' } });
+  await topic.send({ foo: 'bar' });
+
+  const messages = await subscription.getMessages();
+  expect(messages).toHaveLength(1);
+  expect(messages[0]!.id).toBe(message.id);
+});
+
+test('Only deliver messages matching the filter JSON path', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    filter: { jsonPath: '$.data.amount > 100 && $.headers.currency == "EUR"' },
+  });
+
+  await subscription.waitInit();
+
+  const message = await topic.send({ amount: 150 }, { headers: { currency: 'EUR' } });
+  await topic.send({ amount: 150 }, { headers: { currency: 'USD' } });
+  await topic.send({ amount: 50 }, { headers: { currency: 'EUR' } });
+
+  const messages = await subscription.getMessages();
+  expect(messages).toHaveLength(1);
+  expect(messages[0]!.id).toBe(message.id);
+});
+
+test('Filter is applied to existing messages of an earliest subscription', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  await topic.waitInit();
+
+  const [paid] = await topic.sendBulk([{ status: 'paid' }, { status: 'cancelled' }]);
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    startPosition: 'earliest',
+    filter: { data: { status: 'paid' } },
+  });
+
+  await subscription.waitInit();
+
+  const messages = await subscription.getMessages();
+  expect(messages).toHaveLength(1);
+  expect(messages[0]!.id).toBe(paid!.id);
+});
+
+test('Filter is stored on the subscription', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscriptionName = randomName('subscription');
+
+  const subscription1 = topic.subscribe(subscriptionName, {
+    filter: { data: { status: 'paid' }, headers: { tenantId: 'acme' } },
+  });
+  await subscription1.waitInit();
+
+  const subscription2 = topic.subscribe(subscriptionName, {
+    filter: { headers: { tenantId: 'acme' }, data: { status: 'paid' } },
+  });
+
+  let error: Error | undefined;
+  subscription2.on('error', (err) => {
+    error = err;
+  });
+
+  await subscription2.waitInit();
+
+  expect(error).toBeUndefined();
+  expect(subscription2.filter).toEqual({ data: { status: 'paid' }, headers: { tenantId: 'acme' } });
+
+  const subscription3 = topic.subscribe(subscriptionName);
+
+  subscription3.on('error', (err) => {
+    error = err;
+  });
+
+  await subscription3.waitInit();
+
+  expect(error).toBeDefined();
+});
+
+test('Reject invalid filter JSON paths', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    filter: { jsonPath: '$.data.amount >>> 1' },
+  });
+
+  await expect(subscription.waitInit()).rejects.toThrow('Invalid subscription filter JSON path "$.data.amount >>> 1"');
+
+  // Messages can still be sent to the topic
+  await topic.send({ amount: 2 });
+
+  const validSubscription = topic.subscribe(randomName('subscription'));
+
+  await validSubscription.waitInit();
+
+  await expect(validSubscription.update({ filter: { jsonPath: '$.data.amount >>> 1' } })).rejects.toThrow(
+    'Invalid subscription filter JSON path',
+  );
+
+  expect(validSubscription.filter).toBeUndefined();
+});
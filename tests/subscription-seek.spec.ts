@@ -0,0 +1,207 @@
+import { expect, test } from 'bun:test';
+import type { Subscription } from '../src';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+async function consumeAll(subscription: Subscription<number>) {
+  const consumer = subscription.consume(() => {
+    // no-op
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+  await consumer.stop();
+}
+
+test('Seek to the earliest message to replay all retained messages', async () => {
+  const topic = transit.topic<number>(randomName('topic'), { maxMessagesRetention: Infinity });
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2, 3]);
+
+  await consumeAll(subscription);
+
+  const count = await subscription.seek({ to: 'earliest' });
+
+  expect(count).toBe(3);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => [message.data, message.status, message.attempts])).toEqual([
+    [1, 'waiting', 0],
+    [2, 'waiting', 0],
+    [3, 'waiting', 0],
+  ]);
+});
+
+test('Seek to the latest message to skip all unprocessed messages', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2]);
+
+  const count = await subscription.seek({ to: 'latest' });
+
+  expect(count).toBe(0);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.status)).toEqual(['completed', 'completed']);
+});
+
+test('Seek to a message id', async () => {
+  const topic = transit.topic<number>(randomName('topic'), { maxMessagesRetention: Infinity });
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const [, message2] = await topic.sendBulk([1, 2, 3]);
+
+  await consumeAll(subscription);
+
+  const count = await subscription.seek({ to: message2!.id });
+
+  expect(count).toBe(2);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => [message.data, message.status])).toEqual([
+    [1, 'completed'],
+    [2, 'waiting'],
+    [3, 'waiting'],
+  ]);
+});
+
+test('Reject seeking to an invalid message id', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await expect(subscription.seek({ to: 'not-an-id' })).rejects.toThrow('Invalid seek position "not-an-id"');
+});
+
+test('Seek to a date', async () => {
+  const topic = transit.topic<number>(randomName('topic'), { maxMessagesRetention: Infinity });
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send(1);
+  await Bun.sleep(10);
+  const date = new Date();
+  await Bun.sleep(10);
+  await topic.send(2);
+
+  const count = await subscription.seek({ to: date });
+
+  expect(count).toBe(1);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => [message.data, message.status])).toEqual([
+    [1, 'completed'],
+    [2, 'waiting'],
+  ]);
+});
+
+test('Seek recreates messages retained in the topic but removed from the subscription', async () => {
+  const topic = transit.topic<number>(randomName('topic'), { maxMessagesRetention: Infinity });
+
+  await topic.sendBulk([1, 2]); // Sent before the subscription creation
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    removeOnComplete: true,
+  });
+
+  await subscription.waitInit();
+
+  await topic.send(3);
+
+  await consumeAll(subscription);
+  await transit.cleanupSubscriptions();
+
+  expect(await subscription.getMessages()).toHaveLength(0);
+
+  const count = await subscription.seek({ to: 'earliest' });
+
+  expect(count).toBe(3);
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => message.data)).toEqual([1, 2, 3]);
+});
+
+test('Seek leaves messages being processed untouched', async () => {
+  const topic = transit.topic<number>(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), { consumptionMode: 'parallel' });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2]);
+
+  const [processingMessage] = await subscription.getNextMessages(1);
+
+  await subscription.seek({ to: 'latest' });
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => [message.data, message.status])).toEqual([
+    [1, 'processing'],
+    [2, 'completed'],
+  ]);
+
+  await processingMessage!.complete();
+});
+
+test('Consumers replay messages after seeking', async () => {
+  const topic = transit.topic<number>(randomName('topic'), { maxMessagesRetention: Infinity });
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.sendBulk([1, 2]);
+
+  const consumed: number[] = [];
+
+  const consumer = subscription.consume((message) => {
+    consumed.push(message.data);
+  });
+
+  await consumer.waitInit();
+  await consumer.waitIdle();
+
+  await subscription.seek({ to: 'earliest' });
+
+  await Bun.sleep(50);
+  await consumer.waitIdle();
+
+  expect(consumed).toEqual([1, 2, 1, 2]);
+});
+
+test('Seek keeps delayed messages delayed', async () => {
+  const topic = transit.topic<number>(randomName('topic'), { maxMessagesRetention: Infinity });
+
+  const deliverAt = new Date(Date.now() + 60_000);
+  await topic.send(1, { deliverAt });
+  await topic.send(2);
+
+  // Messages sent before the subscription are recreated by seeking
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.seek({ to: 'earliest' });
+
+  const messages = await subscription.getMessages();
+  expect(messages.map((message) => [message.data, message.availableAt])).toEqual([
+    [1, deliverAt],
+    [2, undefined],
+  ]);
+
+  expect((await subscription.getNextMessages(2)).map((message) => message.data)).toEqual([2]);
+});
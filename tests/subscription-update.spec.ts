@@ -0,0 +1,204 @@
+import { expect, test } from 'bun:test';
+import { createTestContext, randomName } from './utils';
+
+const { transit, newPgTransit } = createTestContext();
+
+test('Update the existing subscription when created with different options', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscriptionName = randomName('subscription');
+  const subscription1 = topic.subscribe(subscriptionName, {
+    consumptionMode: 'sequential',
+    maxAttempts: 1,
+    startPosition: 'earliest',
+  });
+  await subscription1.waitInit();
+
+  await topic.send('foo');
+
+  const subscription2 = topic.subscribe(subscriptionName, {
+    consumptionMode: 'parallel',
+    maxAttempts: 3,
+    retryStrategy: 'exponential',
+    retryDelayInMs: 1000,
+    filter: { data: 'foo' },
+    startPosition: 'latest',
+    onOptionsMismatch: 'update',
+  });
+
+  let error: Error | undefined;
+  subscription2.on('error', (err) => {
+    error = err;
+  });
+
+  await subscription2.waitInit();
+
+  expect(error).toBeUndefined();
+  expect(subscription2.id).toBe(subscription1.id);
+  expect(subscription2.consumptionMode).toBe('parallel');
+  expect(subscription2.maxAttempts).toBe(3);
+  expect(subscription2.retryStrategy).toBe('exponential');
+  expect(subscription2.retryDelay).toBe(1000);
+  expect(subscription2.filter).toEqual({ data: 'foo' });
+  expect(subscription2.startPosition).toBe('earliest'); // Only applies on creation
+
+  const subscription3 = topic.subscribe(subscriptionName, { onOptionsMismatch: 'ignore' });
+  await subscription3.waitInit();
+  expect(subscription3.consumptionMode).toBe('parallel'); // Stored options were updated
+
+  const messages = await subscription2.getMessages();
+  expect(messages).toHaveLength(1); // Messages are kept
+});
+
+test('Ignore different options and keep the existing ones', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscriptionName = randomName('subscription');
+  const subscription1 = topic.subscribe(subscriptionName, { maxAttempts: 2 });
+  await subscription1.waitInit();
+
+  const subscription2 = topic.subscribe(subscriptionName, { maxAttempts: 5, onOptionsMismatch: 'ignore' });
+
+  let error: Error | undefined;
+  subscription2.on('error', (err) => {
+    error = err;
+  });
+
+  await subscription2.waitInit();
+
+  expect(error).toBeUndefined();
+  expect(subscription2.maxAttempts).toBe(2);
+});
+
+test('Update some options of a subscription', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    maxAttempts: 2,
+    filter: { data: 'foo' },
+  });
+
+  await subscription.update({ maxAttempts: 4, filter: null });
+
+  expect(subscription.maxAttempts).toBe(4);
+  expect(subscription.filter).toBeUndefined();
+  expect(subscription.consumptionMode).toBe('sequential'); // Unchanged
+
+  const sameSubscription = topic.subscribe(subscription.name, { maxAttempts: 4 });
+
+  let error: Error | undefined;
+  sameSubscription.on('error', (err) => {
+    error = err;
+  });
+
+  await sameSubscription.waitInit();
+
+  expect(error).toBeUndefined();
+});
+
+test('Switch from parallel to sequential while messages are in flight', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'parallel',
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk(['foo', 'bar', 'baz']);
+
+  const inFlightMessages = await subscription.getNextMessages(2);
+  expect(inFlightMessages).toHaveLength(2);
+
+  await subscription.update({ consumptionMode: 'sequential' });
+
+  expect(await subscription.getNextMessages(1)).toEqual([]); // Wait for messages in flight
+
+  await inFlightMessages[0]!.complete();
+
+  expect(await subscription.getNextMessages(1)).toEqual([]);
+
+  await inFlightMessages[1]!.complete();
+
+  const [nextMessage] = await subscription.getNextMessages(1);
+  expect(nextMessage!.data).toBe('baz');
+});
+
+test('Switch from sequential to parallel while a message is in flight', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'), {
+    consumptionMode: 'sequential',
+  });
+
+  await subscription.waitInit();
+
+  await topic.sendBulk(['foo', 'bar', 'baz']);
+
+  const consumer = subscription.consume(() => {}, { concurrency: 2, autostart: false });
+  await consumer.waitInit();
+  expect(consumer.concurrency).toBe(1);
+
+  const [inFlightMessage] = await subscription.getNextMessages(1);
+
+  await subscription.update({ consumptionMode: 'parallel' });
+
+  expect(consumer.concurrency).toBe(2);
+
+  const nextMessages = await subscription.getNextMessages(2);
+  expect(nextMessages.map((message) => message.data)).toEqual(['bar', 'baz']);
+
+  await inFlightMessage!.complete();
+
+  const messages = await subscription.getMessages('completed');
+  expect(messages.map((message) => message.data)).toEqual(['foo']);
+});
+
+test('Only update the subscription of the same topic', async () => {
+  const subscriptionName = randomName('subscription');
+
+  const topic1 = transit.topic(randomName('topic'));
+  const topic2 = transit.topic(randomName('topic'));
+
+  const subscription1 = topic1.subscribe(subscriptionName, { maxAttempts: 1 });
+  const subscription2 = topic2.subscribe(subscriptionName, { maxAttempts: 1 });
+  await Promise.all([subscription1.waitInit(), subscription2.waitInit()]);
+
+  const updatedSubscription = topic2.subscribe(subscriptionName, { maxAttempts: 3, onOptionsMismatch: 'update' });
+  await updatedSubscription.waitInit();
+
+  expect(updatedSubscription.id).toBe(subscription2.id);
+  expect(updatedSubscription.maxAttempts).toBe(3);
+
+  const otherSubscription = topic1.subscribe(subscriptionName, { onOptionsMismatch: 'ignore' });
+  await otherSubscription.waitInit();
+
+  expect(otherSubscription.id).toBe(subscription1.id);
+  expect(otherSubscription.maxAttempts).toBe(1);
+});
+
+test('Deliver messages sequentially once switched to sequential by another process', async () => {
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+
+  const topic = transit.topic(topicName);
+  const subscription = topic.subscribe(subscriptionName, { consumptionMode: 'parallel' });
+  await subscription.waitInit();
+
+  await topic.sendBulk(['foo', 'bar', 'baz']);
+
+  const otherSubscription = newPgTransit().topic(topicName).subscribe(subscriptionName, {
+    consumptionMode: 'parallel',
+  });
+  await otherSubscription.update({ consumptionMode: 'sequential' });
+
+  const messages = await subscription.getNextMessages(3);
+  expect(messages.map((message) => message.data)).toEqual(['foo']);
+  expect(subscription.consumptionMode).toBe('sequential');
+
+  expect(await otherSubscription.getNextMessages(3)).toEqual([]); // Until the first message is processed
+
+  await messages[0]!.complete();
+
+  expect((await otherSubscription.getNextMessages(3)).map((message) => message.data)).toEqual(['bar']);
+});
@@ -0,0 +1,127 @@
+import { context, propagation, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { afterAll, beforeAll, beforeEach, expect, test } from 'bun:test';
+import { createTestContext, randomName } from './utils';
+
+const { transit } = createTestContext();
+
+const exporter = new InMemorySpanExporter();
+
+beforeAll(() => {
+  trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+});
+
+afterAll(() => {
+  trace.disable();
+  propagation.disable();
+  context.disable();
+});
+
+beforeEach(() => {
+  exporter.reset();
+});
+
+function findSpan(name: string) {
+  return exporter.getFinishedSpans().find((span) => span.name === name);
+}
+
+test('Link the consumer span to the producer span', async () => {
+  const topicName = randomName('topic');
+  const subscriptionName = randomName('subscription');
+
+  const topic = transit.topic(topicName);
+
+  const subscription = topic.subscribe(subscriptionName);
+
+  await subscription.waitInit();
+
+  const tracer = trace.getTracer('test');
+
+  const message = await tracer.startActiveSpan('request', async (span) => {
+    try {
+      return await topic.send('foo');
+    } finally {
+      span.end();
+    }
+  });
+
+  expect(message.headers['traceparent']).toBeDefined();
+
+  const consumer = subscription.consume(() => {
+    tracer.startSpan('handler').end();
+  });
+
+  await new Promise((resolve) => consumer.once('completed', resolve));
+
+  const requestSpan = findSpan('request')!;
+  const producerSpan = findSpan(`send ${topicName}`)!;
+  const consumerSpan = findSpan(`process ${topicName}`)!;
+  const handlerSpan = findSpan('handler')!;
+
+  expect(producerSpan.kind).toBe(SpanKind.PRODUCER);
+  expect(producerSpan.parentSpanContext?.spanId).toBe(requestSpan.spanContext().spanId);
+  expect(producerSpan.attributes).toMatchObject({
+    'messaging.destination.name': topicName,
+    'messaging.message.id': message.id,
+  });
+
+  expect(consumerSpan.kind).toBe(SpanKind.CONSUMER);
+  expect(consumerSpan.links.map((link) => link.context.spanId)).toEqual([producerSpan.spanContext().spanId]);
+  expect(consumerSpan.attributes).toMatchObject({
+    'messaging.destination.name': topicName,
+    'messaging.consumer.group.name': subscriptionName,
+    'messaging.message.id': message.id,
+    'pg_transit.message.attempt': 1,
+    'pg_transit.message.status': 'completed',
+  });
+
+  // Spans created by the handler are children of the consumer span
+  expect(handlerSpan.parentSpanContext?.spanId).toBe(consumerSpan.spanContext().spanId);
+});
+
+test('Record handler errors on the consumer span', async () => {
+  const topicName = randomName('topic');
+
+  const topic = transit.topic(topicName);
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.send('foo');
+
+  const consumer = subscription.consume(() => {
+    throw new Error('Handler error');
+  });
+
+  await new Promise((resolve) => consumer.once('failed', resolve));
+
+  const consumerSpan = findSpan(`process ${topicName}`)!;
+
+  expect(consumerSpan.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Handler error' });
+  expect(consumerSpan.events.map((event) => event.name)).toEqual(['exception']);
+  expect(consumerSpan.attributes['pg_transit.message.status']).toBe('failed');
+});
+
+test('Trace maintenance tasks', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  await topic.sendBulk(['foo', 'bar']);
+
+  const messages = await subscription.getNextMessages(2);
+  await Promise.all(messages.map((message) => message.complete()));
+
+  exporter.reset();
+
+  const count = await transit.trimTopics();
+
+  expect(findSpan('PgTransit.trimTopics')!.attributes['pg_transit.message_count']).toBe(count);
+});
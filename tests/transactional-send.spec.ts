@@ -0,0 +1,92 @@
+import { afterAll, expect, test } from 'bun:test';
+import postgres from 'postgres';
+import { createTestContext, randomName, TEST_CONNECTION_OPTIONS } from './utils';
+
+const { transit } = createTestContext();
+
+const sql = postgres(TEST_CONNECTION_OPTIONS);
+
+afterAll(async () => {
+  await sql.end();
+});
+
+test('Send a message in a committed transaction', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const message = await sql.begin(async (tx) => {
+    const message = await topic.send({ foo: 'bar' }, { tx });
+
+    expect(await topic.getMessages()).toHaveLength(0); // Not visible until the transaction is committed
+
+    return message;
+  });
+
+  const messages = await topic.getMessages();
+  expect(messages).toHaveLength(1);
+  expect(messages[0]!.id).toBe(message.id);
+
+  const subscriptionMessages = await subscription.getMessages('waiting');
+  expect(subscriptionMessages).toHaveLength(1);
+  expect(subscriptionMessages[0]!.id).toBe(message.id);
+});
+
+test('Messages sent in a rolled back transaction are dropped', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  const subscription = topic.subscribe(randomName('subscription'));
+
+  await subscription.waitInit();
+
+  const error = await sql
+    .begin(async (tx) => {
+      await topic.sendBulk([{ foo: 'bar' }, { bar: 'baz' }], { tx });
+
+      throw new Error('Rollback');
+    })
+    .catch((e) => e);
+
+  expect(error.message).toBe('Rollback');
+
+  expect(await topic.getMessages()).toHaveLength(0);
+  expect(await subscription.getMessages()).toHaveLength(0);
+});
+
+test('Do not emit send events for messages sent in a transaction', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  await topic.waitInit();
+
+  const sentMessages: unknown[] = [];
+  topic.on('send', (message) => sentMessages.push(message));
+
+  await sql
+    .begin(async (tx) => {
+      await topic.send({ foo: 'bar' }, { tx });
+      await topic.sendBulk([{ bar: 'baz' }], { tx });
+
+      throw new Error('Rollback');
+    })
+    .catch(() => {});
+
+  expect(sentMessages).toEqual([]);
+});
+
+test('Schedule a message in a transaction', async () => {
+  const topic = transit.topic(randomName('topic'));
+
+  await topic.waitInit();
+
+  await sql
+    .begin(async (tx) => {
+      await topic.schedule('my-message', { cron: '0 0 * * *' }, { foo: 'bar' }, { tx });
+
+      throw new Error('Rollback');
+    })
+    .catch(() => {});
+
+  expect(await topic.getScheduledMessages()).toHaveLength(0);
+});